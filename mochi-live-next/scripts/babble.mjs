@@ -0,0 +1,26 @@
+/**
+ * Synthetic speech-like audio for the local test servers
+ */
+
+/**
+ * Vowel-like babble with a pause every few syllables, for testing without a recording
+ */
+export function synthesizeBabble(sampleRate = 16000, seconds = 6) {
+  const vowels = [[730, 1090], [270, 2290], [390, 1990], [570, 840], [300, 870]];
+  const samples = new Int16Array(Math.round(sampleRate * seconds));
+  const syllable = Math.floor(sampleRate * 0.22);
+
+  for (let i = 0; i < samples.length; i++) {
+    const index = Math.floor(i / syllable);
+    const inPause = index % 7 === 6;
+    const [f1, f2] = vowels[index % vowels.length];
+    const t = i / sampleRate;
+    const envelope = Math.sin(Math.PI * ((i % syllable) / syllable));
+    const voice = Math.sin(2 * Math.PI * 120 * t) * 0.3
+      + Math.sin(2 * Math.PI * f1 * t) * 0.4
+      + Math.sin(2 * Math.PI * f2 * t) * 0.3;
+    samples[i] = inPause ? 0 : Math.round(voice * envelope * 12000);
+  }
+
+  return { sampleRate, samples };
+}
@@ -0,0 +1,69 @@
+/**
+ * Bake a viseme track from an audio file, outside the live session.
+ *
+ * Usage:
+ *   npm run bake-visemes -- narration.wav [output.json]
+ *   npm run bake-visemes -- speech.pcm --sample-rate 16000
+ *
+ * Options:
+ *   --fps <fps>                Analysis frames per second (default 60)
+ *   --sample-rate <hz>         Sample rate of raw .pcm/.raw input (16-bit little-endian mono, default 16000)
+ *   --clip                     Write a THREE.AnimationClip JSON of VRM expression weights instead of the track
+ *
+ * The output defaults to the input path with a .visemes.json extension.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import * as THREE from 'three';
+import { DEFAULT_SAMPLE_RATE } from '../src/app/utils/frequencyToViseme';
+import {
+  bakeVisemeTrack,
+  bakeVisemeTrackFromWav,
+  pcm16ToFloat32,
+  visemeTrackToAnimationClip,
+  visemeTrackToJSON,
+} from '../src/app/utils/visemeBaker';
+
+const USAGE = 'Usage: npm run bake-visemes -- <input.wav|input.pcm> [output.json] [--fps <fps>] [--sample-rate <hz>] [--clip]';
+
+function parseArgs(argv: string[]) {
+  const options = { fps: 60, sampleRate: DEFAULT_SAMPLE_RATE, clip: false, args: [] as string[] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--fps') options.fps = Number(argv[++i]);
+    else if (arg === '--sample-rate') options.sampleRate = Number(argv[++i]);
+    else if (arg === '--clip') options.clip = true;
+    else options.args.push(arg);
+  }
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const [input, output = input?.replace(/\.[^./]+$/, '') + '.visemes.json'] = options.args;
+if (!input || !(options.fps > 0) || !(options.sampleRate > 0)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const file = await readFile(input);
+  const buffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+
+  // Raw PCM carries no header, so its sample rate comes from the command line
+  const track = /\.(pcm|raw)$/i.test(input)
+    ? bakeVisemeTrack(pcm16ToFloat32(new Int16Array(buffer, 0, buffer.byteLength >> 1)), options.sampleRate, { fps: options.fps })
+    : bakeVisemeTrackFromWav(buffer, { fps: options.fps });
+
+  const json = options.clip
+    ? JSON.stringify(THREE.AnimationClip.toJSON(visemeTrackToAnimationClip(track)))
+    : visemeTrackToJSON(track);
+  await writeFile(output, json);
+
+  const voiced = track.frames.filter(frame => frame.intensity > 0.1).length;
+  console.log(`✅ ${track.duration.toFixed(2)}s at ${track.sampleRate} Hz → ${track.frames.length} frames (${voiced} voiced), written to ${output}`);
+}
+
+main().catch(error => {
+  console.error(`❌ Failed to bake ${input}:`, error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+/**
+ * Local mock of the ElevenLabs conversational agent websocket, so the avatar
+ * conversation flow can be exercised without network access or an API key.
+ *
+ * Usage:
+ *   npm run mock-agent -- [--port 8766]
+ *   ELEVENLABS_MOCK=1 NEXT_PUBLIC_ELEVENLABS_AUTH=signed npm run dev
+ *
+ * The mock greets the user, waves, and answers every typed message (or every
+ * few seconds of microphone audio) with babble audio and a canned transcript.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+import { synthesizeBabble } from './babble.mjs';
+
+const SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+const SECONDS_PER_WORD = 0.3;
+const USER_AUDIO_TURN_CHUNKS = 40; // Mic chunks that count as one user turn
+
+const REPLIES = [
+  'That sounds really interesting, tell me more about it.',
+  'I am only a mock agent, but I am happy to keep you company.',
+  'Good question! Let me think about that for a moment.',
+];
+
+function parseArgs(argv) {
+  const options = { port: 8766 };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') options.port = Number(argv[++i]);
+  }
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const server = new WebSocketServer({ port: options.port });
+console.log(`🧪 Mock agent on ws://localhost:${options.port}`);
+
+server.on('connection', (socket, request) => {
+  console.log(`🔌 Client connected: ${request.url}`);
+
+  let eventId = 0;
+  let replyIndex = 0;
+  let userAudioChunks = 0;
+  let speaking = null;
+
+  const send = (message) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // Send the transcript, then stream babble audio sized to it in real time
+  const say = (text) => {
+    clearInterval(speaking);
+    eventId++;
+    send({ type: 'agent_response', agent_response_event: { agent_response: text, event_id: eventId } });
+
+    const words = text.split(/\s+/).length;
+    const { samples } = synthesizeBabble(SAMPLE_RATE, words * SECONDS_PER_WORD);
+    const chunkSize = (SAMPLE_RATE * CHUNK_MS) / 1000;
+    let position = 0;
+
+    speaking = setInterval(() => {
+      if (position >= samples.length) {
+        clearInterval(speaking);
+        speaking = null;
+        return;
+      }
+      const chunk = samples.slice(position, position + chunkSize);
+      position += chunkSize;
+      send({
+        type: 'audio',
+        audio_event: { audio_base_64: Buffer.from(chunk.buffer).toString('base64'), event_id: eventId },
+      });
+    }, CHUNK_MS);
+  };
+
+  const reply = (userText) => {
+    eventId++;
+    send({ type: 'user_transcript', user_transcription_event: { user_transcript: userText, event_id: eventId } });
+    setTimeout(() => say(REPLIES[replyIndex++ % REPLIES.length]), 800);
+  };
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'conversation_initiation_client_data':
+        send({
+          type: 'conversation_initiation_metadata',
+          conversation_initiation_metadata_event: {
+            conversation_id: `mock_${randomUUID()}`,
+            agent_output_audio_format: `pcm_${SAMPLE_RATE}`,
+            user_input_audio_format: `pcm_${SAMPLE_RATE}`,
+          },
+        });
+        setTimeout(() => {
+          say('Hi there! I am the local mock agent.');
+          send({
+            type: 'client_tool_call',
+            client_tool_call: {
+              tool_name: 'playAnimation',
+              tool_call_id: randomUUID(),
+              parameters: { animation: 'greeting' },
+              event_id: eventId,
+            },
+          });
+        }, 500);
+        break;
+      case 'user_message':
+        console.log(`💬 User: ${message.text}`);
+        reply(message.text);
+        break;
+      case 'user_audio_chunk':
+        // No speech recognition here: treat a stretch of mic audio as a turn
+        if (++userAudioChunks % USER_AUDIO_TURN_CHUNKS === 0 && !speaking) {
+          reply('(microphone audio)');
+        }
+        break;
+      case 'client_tool_result':
+        console.log(`🛠️ Tool result: ${message.result}`);
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    clearInterval(speaking);
+    console.log('👋 Client disconnected');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Local stand-in for a speech backend: streams a WAV file as 16-bit PCM over
+ * WebSocket, in real time, to every connected avatar (WebSocketPcmAudioSource).
+ *
+ * Usage:
+ *   npm run pcm-server -- path/to/speech.wav [--port 8765] [--loop]
+ *
+ * Protocol: one JSON text frame { "type": "format", "sampleRate": <hz> } on
+ * connect, then binary frames of mono 16-bit little-endian PCM.
+ */
+
+import { readFileSync } from 'node:fs';
+import { WebSocketServer } from 'ws';
+import { synthesizeBabble } from './babble.mjs';
+
+const CHUNK_MS = 20;
+
+function parseArgs(argv) {
+  const options = { file: null, port: 8765, loop: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--loop') options.loop = true;
+    else options.file = arg;
+  }
+  return options;
+}
+
+/**
+ * Read a PCM WAV file and return its first channel as 16-bit samples
+ */
+function readWav(path) {
+  const buffer = readFileSync(path);
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`${path} is not a WAV file`);
+  }
+
+  let offset = 12;
+  let format = null;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data') {
+      if (!format || format.audioFormat !== 1 || format.bitsPerSample !== 16) {
+        throw new Error('Only 16-bit PCM WAV files are supported');
+      }
+      const frameCount = Math.floor(Math.min(size, buffer.length - body) / (2 * format.channels));
+      const samples = new Int16Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        samples[i] = buffer.readInt16LE(body + i * 2 * format.channels);
+      }
+      return { sampleRate: format.sampleRate, samples };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error(`${path} has no data chunk`);
+}
+
+const options = parseArgs(process.argv.slice(2));
+const audio = options.file ? readWav(options.file) : synthesizeBabble();
+const chunkSize = Math.floor((audio.sampleRate * CHUNK_MS) / 1000);
+
+const server = new WebSocketServer({ port: options.port });
+console.log(`🔊 PCM stream server on ws://localhost:${options.port} (${audio.sampleRate} Hz, ${(audio.samples.length / audio.sampleRate).toFixed(1)}s${options.loop ? ', looping' : ''})`);
+
+server.on('connection', (socket) => {
+  console.log('🔌 Client connected');
+  socket.send(JSON.stringify({ type: 'format', sampleRate: audio.sampleRate }));
+
+  let position = 0;
+  const timer = setInterval(() => {
+    if (position >= audio.samples.length) {
+      if (!options.loop) {
+        clearInterval(timer);
+        return;
+      }
+      position = 0;
+    }
+
+    const chunk = audio.samples.slice(position, position + chunkSize);
+    position += chunkSize;
+    socket.send(Buffer.from(chunk.buffer));
+  }, CHUNK_MS);
+
+  socket.on('close', () => {
+    clearInterval(timer);
+    console.log('👋 Client disconnected');
+  });
+});
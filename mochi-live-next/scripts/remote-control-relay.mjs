@@ -0,0 +1,174 @@
+/**
+ * Relay between remote-control tools and connected avatars (RemoteControlClient).
+ *
+ * Usage:
+ *   npm run remote-relay -- [--port 8767] [--host 127.0.0.1] [--token <secret>]
+ *   NEXT_PUBLIC_REMOTE_CONTROL_URL=ws://localhost:8767 npm run dev
+ *
+ * Endpoints:
+ *   ws   /avatar    Avatars connect here and receive every command as JSON
+ *   ws   /control   Tools send commands as JSON text frames; each is answered
+ *                   with { "delivered": <avatars> } or { "error": "..." }
+ *   POST /command   Same as /control, one command per request
+ *
+ * With a token (--token or REMOTE_CONTROL_TOKEN), /control and /command need
+ * "Authorization: Bearer <token>" or ?token=<token>. Commands are checked in
+ * full by the avatar; the relay only forwards JSON objects with a type.
+ *
+ * Web pages the streamer visits can reach localhost too, so:
+ * - The relay only listens on 127.0.0.1 unless --host says otherwise
+ * - /control and /command refuse requests from browsers (any Origin header),
+ *   and /command only takes application/json, which pages can't send cross-site
+ *   without a preflight
+ * - /avatar only accepts pages from the app's origins (--allow-origin, comma
+ *   separated; default http://localhost:3000 and http://127.0.0.1:3000)
+ * - "say" puts words in the live agent's mouth, so it needs a token
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const DEFAULT_ALLOWED_ORIGINS = 'http://localhost:3000,http://127.0.0.1:3000';
+
+function parseArgs(argv) {
+  const options = {
+    port: 8767,
+    host: process.env.REMOTE_CONTROL_HOST || '127.0.0.1',
+    token: process.env.REMOTE_CONTROL_TOKEN || null,
+    allowedOrigins: process.env.REMOTE_CONTROL_ALLOWED_ORIGINS || DEFAULT_ALLOWED_ORIGINS,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') options.port = Number(argv[++i]);
+    else if (argv[i] === '--host') options.host = argv[++i];
+    else if (argv[i] === '--token') options.token = argv[++i];
+    else if (argv[i] === '--allow-origin') options.allowedOrigins = argv[++i];
+  }
+  options.allowedOrigins = options.allowedOrigins.split(',').map(origin => origin.trim()).filter(Boolean);
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const avatars = new Set();
+
+/**
+ * Constant-time comparison, so response timing doesn't leak how much of a guess matched
+ */
+function matchesSecret(candidate, secret) {
+  if (typeof candidate !== 'string') return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function isAuthorized(request, url) {
+  if (!options.token) return true;
+  return matchesSecret(request.headers.authorization, `Bearer ${options.token}`)
+    || matchesSecret(url.searchParams.get('token'), options.token);
+}
+
+/**
+ * Controllers are tools and scripts; a browser always sends an Origin, so any
+ * web page trying to drive the avatar is turned away
+ */
+function isFromBrowser(request) {
+  return request.headers.origin !== undefined;
+}
+
+function isAllowedAvatar(request, url) {
+  const origin = request.headers.origin;
+  return origin === undefined ? isAuthorized(request, url) : options.allowedOrigins.includes(origin);
+}
+
+/**
+ * Forward a raw command to every avatar and report how many received it
+ */
+function relay(text) {
+  let command;
+  try {
+    command = JSON.parse(text);
+  } catch {
+    return { status: 400, body: { error: 'Command must be JSON' } };
+  }
+  if (typeof command !== 'object' || command === null || typeof command.type !== 'string') {
+    return { status: 400, body: { error: 'Command needs a "type"' } };
+  }
+  if (command.type === 'say' && !options.token) {
+    return { status: 403, body: { error: '"say" needs the relay to run with a token' } };
+  }
+
+  const message = JSON.stringify(command);
+  let delivered = 0;
+  for (const avatar of avatars) {
+    if (avatar.readyState !== avatar.OPEN) continue;
+    avatar.send(message);
+    delivered++;
+  }
+
+  console.log(`🎛️ ${command.type} → ${delivered} avatar(s)`);
+  return { status: 200, body: { delivered } };
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url, 'http://localhost');
+  const reply = (status, body) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  if (request.method !== 'POST' || url.pathname !== '/command') return reply(404, { error: 'Not found' });
+  if (isFromBrowser(request)) return reply(403, { error: 'Browser requests are not accepted' });
+  if (!isAuthorized(request, url)) return reply(401, { error: 'Invalid or missing token' });
+  if (!request.headers['content-type']?.startsWith('application/json')) {
+    return reply(415, { error: 'Content-Type must be application/json' });
+  }
+
+  let body = '';
+  request.on('data', (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) request.destroy();
+  });
+  request.on('end', () => {
+    const result = relay(body);
+    reply(result.status, result.body);
+  });
+});
+
+const sockets = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (request, socket, head) => {
+  const url = new URL(request.url, 'http://localhost');
+  const role = url.pathname === '/avatar' ? 'avatar' : url.pathname === '/control' ? 'control' : null;
+
+  const refuse = (status) => {
+    socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+    socket.destroy();
+  };
+
+  if (!role) return refuse('404 Not Found');
+  if (role === 'avatar' && !isAllowedAvatar(request, url)) return refuse('403 Forbidden');
+  if (role === 'control' && isFromBrowser(request)) return refuse('403 Forbidden');
+  if (role === 'control' && !isAuthorized(request, url)) return refuse('401 Unauthorized');
+
+  sockets.handleUpgrade(request, socket, head, (client) => {
+    if (role === 'avatar') {
+      avatars.add(client);
+      console.log(`🔌 Avatar connected (${avatars.size})`);
+      client.on('close', () => {
+        avatars.delete(client);
+        console.log(`👋 Avatar disconnected (${avatars.size})`);
+      });
+      return;
+    }
+
+    console.log('🔌 Controller connected');
+    client.on('message', (data) => client.send(JSON.stringify(relay(data.toString()).body)));
+    client.on('close', () => console.log('👋 Controller disconnected'));
+  });
+});
+
+server.listen(options.port, options.host, () => {
+  console.log(`🎛️ Remote-control relay on http://${options.host}:${options.port}${options.token ? ' (token required)' : ' (no token: "say" is disabled)'}`);
+});
@@ -0,0 +1,80 @@
+/**
+ * Command-line client for the remote-control relay, for trying commands locally.
+ *
+ * Usage:
+ *   npm run remote -- animation wave
+ *   npm run remote -- emotion happy [intensity] [seconds]
+ *   npm run remote -- gaze left [seconds]
+ *   npm run remote -- camera closeUp [--cut]
+ *   npm run remote -- say "Thanks for the follow!"
+ *
+ * Options:
+ *   --url <url>      Where to POST (default http://localhost:8767/command, or
+ *                    http://localhost:3000/api/remote to go through the app)
+ *   --token <token>  Bearer token (default REMOTE_CONTROL_TOKEN)
+ */
+
+const USAGE = 'Usage: npm run remote -- <animation|emotion|gaze|camera|say> <name or text> [...] [--url <url>] [--token <token>]';
+
+function parseArgs(argv) {
+  const options = { url: 'http://localhost:8767/command', token: process.env.REMOTE_CONTROL_TOKEN || null, cut: false, args: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--url') options.url = argv[++i];
+    else if (arg === '--token') options.token = argv[++i];
+    else if (arg === '--cut') options.cut = true;
+    else options.args.push(arg);
+  }
+  return options;
+}
+
+const optionalNumber = (value) => (value === undefined ? undefined : Number(value));
+
+/**
+ * Turn positional arguments into a command object
+ */
+function buildCommand([type, value, ...rest], cut) {
+  if (!value) return null;
+  switch (type) {
+    case 'animation':
+      return { type, animation: value };
+    case 'emotion':
+      return { type, emotion: value, intensity: optionalNumber(rest[0]), duration: optionalNumber(rest[1]) };
+    case 'gaze':
+      return { type, target: value, duration: optionalNumber(rest[0]) };
+    case 'camera':
+      return { type, shot: value, cut };
+    case 'say':
+      return { type, text: [value, ...rest].join(' ') };
+    default:
+      return null;
+  }
+}
+
+const options = parseArgs(process.argv.slice(2));
+const command = buildCommand(options.args, options.cut);
+if (!command) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+try {
+  const response = await fetch(options.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+    body: JSON.stringify(command),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ ${response.status}: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${command.type} delivered to ${result.delivered} avatar(s)`);
+} catch (error) {
+  console.error(`❌ Could not reach ${options.url}:`, error.message);
+  process.exit(1);
+}
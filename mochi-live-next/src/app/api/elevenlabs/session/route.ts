@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SessionCredentials } from '../../../utils/agentConfig';
+
+/**
+ * Issues session credentials for private ElevenLabs agents
+ *
+ * GET /api/elevenlabs/session?connectionType=websocket|webrtc[&agentId=...]
+ * - websocket: { signedUrl }
+ * - webrtc:    { conversationToken }
+ *
+ * Env vars (server):
+ * - ELEVENLABS_API_KEY    Used to request credentials; never sent to the browser
+ * - ELEVENLABS_AGENT_ID   Agent to sign for (falls back to NEXT_PUBLIC_ELEVENLABS_AGENT_ID)
+ * - ELEVENLABS_PANEL_AGENT_IDS
+ *                         Comma-separated agents that may be asked for with agentId,
+ *                         for panels; any other requested agent is refused
+ * - ELEVENLABS_MOCK       Set to 1 to hand out a URL for the local mock agent
+ *                         (npm run mock-agent) instead of calling ElevenLabs
+ * - ELEVENLABS_MOCK_URL   Mock agent address (default ws://localhost:8766)
+ */
+
+export const dynamic = 'force-dynamic';
+
+const API_BASE = 'https://api.elevenlabs.io/v1/convai/conversation';
+const DEFAULT_MOCK_URL = 'ws://localhost:8766';
+
+function json(body: SessionCredentials, status = 200) {
+  return NextResponse.json(body, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function GET(request: NextRequest) {
+  const connectionType = request.nextUrl.searchParams.get('connectionType') ?? 'websocket';
+  if (connectionType !== 'websocket' && connectionType !== 'webrtc') {
+    return json({ error: `Unsupported connection type "${connectionType}"` }, 400);
+  }
+
+  // Only listed agents can be signed for on request, so the key can't be used for arbitrary agents
+  const requestedAgentId = request.nextUrl.searchParams.get('agentId');
+  const panelAgentIds = (process.env.ELEVENLABS_PANEL_AGENT_IDS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  if (requestedAgentId && !panelAgentIds.includes(requestedAgentId)) {
+    return json({ error: `Agent "${requestedAgentId}" is not in ELEVENLABS_PANEL_AGENT_IDS` }, 403);
+  }
+
+  const agentId = requestedAgentId || process.env.ELEVENLABS_AGENT_ID || process.env.NEXT_PUBLIC_ELEVENLABS_AGENT_ID;
+  if (!agentId) {
+    return json({ error: 'ELEVENLABS_AGENT_ID is not configured' }, 500);
+  }
+
+  if (process.env.ELEVENLABS_MOCK === '1') {
+    if (connectionType === 'webrtc') {
+      return json({ error: 'The mock agent only supports websocket connections' }, 400);
+    }
+    const mockUrl = process.env.ELEVENLABS_MOCK_URL || DEFAULT_MOCK_URL;
+    return json({ signedUrl: `${mockUrl}/v1/convai/conversation?agent_id=${encodeURIComponent(agentId)}`, mock: true });
+  }
+
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) {
+    return json({ error: 'ELEVENLABS_API_KEY is not configured' }, 500);
+  }
+
+  const endpoint = connectionType === 'webrtc' ? 'token' : 'get-signed-url';
+  try {
+    const response = await fetch(`${API_BASE}/${endpoint}?agent_id=${encodeURIComponent(agentId)}`, {
+      headers: { 'xi-api-key': apiKey },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      console.error(`❌ ElevenLabs ${endpoint} failed: ${response.status} ${await response.text()}`);
+      return json({ error: `ElevenLabs rejected the session request (${response.status})` }, 502);
+    }
+
+    const body = await response.json() as { signed_url?: string; token?: string };
+    return connectionType === 'webrtc'
+      ? json({ conversationToken: body.token })
+      : json({ signedUrl: body.signed_url });
+  } catch (error) {
+    console.error('❌ Failed to reach ElevenLabs:', error);
+    return json({ error: 'Could not reach ElevenLabs' }, 502);
+  }
+}
@@ -0,0 +1,91 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRemoteCommand } from '../../utils/remoteControl';
+
+/**
+ * Sends a command to every avatar connected to the remote-control relay
+ *
+ * POST /api/remote
+ * Body: a command, e.g. { "type": "animation", "animation": "wave" }
+ * Response: { delivered: <number of avatars> }
+ *
+ * Env vars (server):
+ * - REMOTE_CONTROL_RELAY_URL  Relay address (default http://localhost:8767)
+ * - REMOTE_CONTROL_TOKEN      When set, requests need "Authorization: Bearer <token>";
+ *                             without it, "say" is refused
+ *
+ * Meant for tools and scripts: requests from web pages (with an Origin header)
+ * are refused, and the body must be sent as application/json, so a page the
+ * streamer visits can't drive the avatar with a simple cross-site POST.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RELAY_URL = 'http://localhost:8767';
+
+function json(body: { delivered?: number; error?: string }, status = 200) {
+  return NextResponse.json(body, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * Constant-time comparison, so response timing doesn't leak how much of a guess matched
+ */
+function matchesSecret(candidate: string | null, secret: string): boolean {
+  if (candidate === null) return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function POST(request: NextRequest) {
+  if (request.headers.get('origin') !== null) {
+    return json({ error: 'Browser requests are not accepted' }, 403);
+  }
+
+  const token = process.env.REMOTE_CONTROL_TOKEN;
+  if (token && !matchesSecret(request.headers.get('authorization'), `Bearer ${token}`)) {
+    return json({ error: 'Invalid or missing token' }, 401);
+  }
+
+  if (!request.headers.get('content-type')?.startsWith('application/json')) {
+    return json({ error: 'Content-Type must be application/json' }, 415);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Body must be JSON' }, 400);
+  }
+
+  const command = parseRemoteCommand(body);
+  if (typeof command === 'string') {
+    return json({ error: command }, 400);
+  }
+  if (command.type === 'say' && !token) {
+    return json({ error: '"say" needs REMOTE_CONTROL_TOKEN to be set' }, 403);
+  }
+
+  const relayUrl = process.env.REMOTE_CONTROL_RELAY_URL || DEFAULT_RELAY_URL;
+  try {
+    const response = await fetch(`${relayUrl}/command`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(command),
+      cache: 'no-store',
+    });
+
+    const result = await response.json() as { delivered?: number; error?: string };
+    if (!response.ok) {
+      console.error(`❌ Remote-control relay failed: ${response.status} ${result.error}`);
+      return json({ error: `Relay rejected the command (${response.status})` }, 502);
+    }
+    return json({ delivered: result.delivered ?? 0 });
+  } catch (error) {
+    console.error('❌ Failed to reach the remote-control relay:', error);
+    return json({ error: 'Could not reach the remote-control relay (npm run remote-relay)' }, 502);
+  }
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AudioSourceKind,
+  AvatarAudioSource,
+  MediaElementAudioSource,
+  MicrophoneAudioSource,
+  WebSocketPcmAudioSource,
+} from '../utils/audioSources';
+import { ReplayAudioSource } from '../utils/sessionCapture';
+
+interface AudioSourceSelectorProps {
+  current: AudioSourceKind;
+  // Called with the newly created source; the ElevenLabs source is owned by the caller
+  onSelect: (source: AvatarAudioSource | null) => void;
+}
+
+const DEFAULT_WEBSOCKET_URL = 'ws://localhost:8765';
+
+export function AudioSourceSelector({ current, onSelect }: AudioSourceSelectorProps) {
+  const [kind, setKind] = useState<AudioSourceKind>(current);
+  const [websocketUrl, setWebsocketUrl] = useState(DEFAULT_WEBSOCKET_URL);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectKind = async (next: AudioSourceKind) => {
+    setKind(next);
+    setError(null);
+
+    try {
+      switch (next) {
+        case 'elevenlabs':
+          onSelect(null);
+          break;
+        case 'microphone':
+          onSelect(await MicrophoneAudioSource.create());
+          break;
+        case 'websocket':
+        case 'media':
+        case 'replay':
+          // Created once a URL is connected or a file is picked
+          break;
+      }
+    } catch (err) {
+      console.error('❌ Failed to create audio source:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const connectWebSocket = () => {
+    setError(null);
+    try {
+      onSelect(new WebSocketPcmAudioSource(websocketUrl));
+    } catch (err) {
+      console.error('❌ Failed to connect PCM stream:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const selectFile = (file: File | undefined) => {
+    if (!file) return;
+
+    const source = MediaElementAudioSource.fromUrl(URL.createObjectURL(file));
+    source.getElement().play().catch(err => {
+      console.error('❌ Failed to play audio file:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    });
+    onSelect(source);
+  };
+
+  const selectCapture = async (file: File | undefined) => {
+    if (!file) return;
+
+    setError(null);
+    try {
+      onSelect(ReplayAudioSource.fromJSON(await file.text()));
+      console.log(`🎞️ Replaying session capture: ${file.name}`);
+    } catch (err) {
+      console.error('❌ Failed to load session capture:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-white text-xs">
+      <div className="flex items-center gap-2">
+        <label htmlFor="audio-source" className="text-gray-300">Audio source</label>
+        <select
+          id="audio-source"
+          value={kind}
+          onChange={(event) => selectKind(event.target.value as AudioSourceKind)}
+          className="bg-gray-800 text-white rounded px-2 py-1"
+        >
+          <option value="elevenlabs">ElevenLabs agent</option>
+          <option value="microphone">Microphone (mirror)</option>
+          <option value="media">Audio file</option>
+          <option value="websocket">WebSocket PCM stream</option>
+          <option value="replay">Session capture replay</option>
+        </select>
+      </div>
+
+      {kind === 'media' && (
+        <input
+          type="file"
+          accept="audio/*"
+          onChange={(event) => selectFile(event.target.files?.[0])}
+          className="text-gray-300"
+        />
+      )}
+
+      {kind === 'replay' && (
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(event) => selectCapture(event.target.files?.[0])}
+          className="text-gray-300"
+        />
+      )}
+
+      {kind === 'websocket' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={websocketUrl}
+            onChange={(event) => setWebsocketUrl(event.target.value)}
+            className="bg-gray-800 text-white rounded px-2 py-1 w-48"
+          />
+          <button
+            onClick={connectWebSocket}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            Connect
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+}
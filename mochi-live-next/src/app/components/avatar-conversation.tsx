@@ -1,37 +1,201 @@
 'use client';
 
 import { useConversation } from '@elevenlabs/react';
-import { useCallback, useState } from 'react';
-import { VRMScene } from './vrm-scene';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DEFAULT_MODEL_URL, VRMScene } from './vrm-scene';
+import { VoiceCalibrationPanel } from './voice-calibration-panel';
+import { AudioSourceSelector } from './audio-source-selector';
+import { ModelSelector } from './model-selector';
+import { TranscriptPanel } from './transcript-panel';
+import { ChatInput, InputMode } from './chat-input';
+import { EnvironmentPanel } from './environment-panel';
+import { OverlayBroadcaster } from './overlay-broadcaster';
+import type { EmotionType } from '../utils/emotionController';
+import type { GazeDirection, GazeMode } from '../utils/gazeController';
+import type { CameraShot } from '../utils/cameraDirector';
+import { AvatarToolTargets, createAvatarTools } from '../utils/avatarTools';
+import type { VoiceProfile } from '../utils/frequencyToViseme';
+import { deleteVoiceProfile, loadVoiceProfile, saveVoiceProfile } from '../utils/voiceCalibration';
+import { downloadRecording } from '../utils/sessionRecorder';
+import { downloadCapture } from '../utils/sessionCapture';
+import { AvatarAudioSource, ElevenLabsAudioSource, parseSampleRate } from '../utils/audioSources';
+import { getAgentConfig, getSessionConfig } from '../utils/agentConfig';
+import { RemoteCommand, RemoteControlClient, getRemoteControlUrl } from '../utils/remoteControl';
+import {
+  DEFAULT_ENVIRONMENT,
+  EnvironmentSettings,
+  loadEnvironmentSettings,
+  saveEnvironmentSettings,
+} from '../utils/sceneEnvironment';
+import {
+  TranscriptSession,
+  appendEntry,
+  createSession,
+  describeToolCall,
+  saveSession,
+} from '../utils/transcriptStore';
+
+// Agent id, connection type and user id come from env (see utils/agentConfig)
+const AGENT_CONFIG = getAgentConfig();
+
+// Seconds of agent speech recorded when calibrating a voice profile
+const CALIBRATION_DURATION_MS = 6000;
+
+// Relay for stream decks, chat bots and scripts (remote control is off without it)
+const REMOTE_CONTROL_URL = getRemoteControlUrl();
 
 export function AvatarConversation() {
   const [animationTrigger, setAnimationTrigger] = useState<{
     animation: string;
     timestamp: number;
   } | null>(null);
+  const [agentTranscript, setAgentTranscript] = useState<{
+    text: string;
+    timestamp: number;
+  } | null>(null);
+  const [emotionTrigger, setEmotionTrigger] = useState<{
+    emotion: EmotionType;
+    intensity: number;
+    durationMs?: number;
+    timestamp: number;
+  } | null>(null);
+  const [gazeTrigger, setGazeTrigger] = useState<{
+    mode: GazeMode;
+    direction?: GazeDirection;
+    durationMs?: number;
+    timestamp: number;
+  } | null>(null);
+  const [cameraTrigger, setCameraTrigger] = useState<{
+    shot: CameraShot;
+    cut?: boolean;
+    timestamp: number;
+  } | null>(null);
+  const [isThinking, setIsThinking] = useState(false);
+  const [modelUrl, setModelUrl] = useState(DEFAULT_MODEL_URL);
+  const [environment, setEnvironment] = useState<EnvironmentSettings>(DEFAULT_ENVIRONMENT);
+  const [sampleRate, setSampleRate] = useState<number | undefined>(undefined);
+  const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null>(null);
+  const [calibrationRequest, setCalibrationRequest] = useState<{
+    profileName: string;
+    durationMs: number;
+    timestamp: number;
+  } | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState<number | null>(null);
+
+  // The agent's voice drives the avatar unless another audio source is selected
+  const elevenLabsSource = useMemo(() => new ElevenLabsAudioSource(AGENT_CONFIG.connectionType), []);
+  const [customSource, setCustomSource] = useState<AvatarAudioSource | null>(null);
+  const audioSource = customSource ?? elevenLabsSource;
+
+  // Typed chat mutes the mic; without mic access the session is text-only
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [textOnly, setTextOnly] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+
+  // Transcript of the current conversation, persisted as it grows
+  const [transcript, setTranscript] = useState<TranscriptSession | null>(null);
+
+  useEffect(() => {
+    if (!transcript) return;
+    saveSession(transcript).catch(error => console.error('❌ Failed to save transcript:', error));
+  }, [transcript]);
+
+  // Where the agent's tool calls and remote commands land
+  const avatarTargets = useMemo<AvatarToolTargets>(() => ({
+    playAnimation: (animation) => setAnimationTrigger({ animation, timestamp: Date.now() }),
+    setEmotion: (emotion, intensity, durationMs) => setEmotionTrigger({ emotion, intensity, durationMs, timestamp: Date.now() }),
+    setGaze: (mode, direction, durationMs) => setGazeTrigger({ mode, direction, durationMs, timestamp: Date.now() }),
+    setCamera: (shot, cut) => setCameraTrigger({ shot, cut, timestamp: Date.now() }),
+  }), []);
+
+  // Log a client tool call in the transcript
+  const recordToolCall = (name: string, parameters: Record<string, unknown>, result: string) => {
+    setTranscript(session => session && appendEntry(session, {
+      role: 'tool',
+      text: describeToolCall(name, parameters),
+      tool: { name, parameters, result },
+    }));
+  };
+
+  // Load the saved voice profile for this agent
+  useEffect(() => {
+    setVoiceProfile(loadVoiceProfile(AGENT_CONFIG.agentId));
+  }, []);
+
+  // Restore the user's background and lighting
+  useEffect(() => {
+    setEnvironment(loadEnvironmentSettings());
+  }, []);
+
+  const changeEnvironment = useCallback((settings: EnvironmentSettings) => {
+    saveEnvironmentSettings(settings);
+    setEnvironment(settings);
+  }, []);
 
   const conversation = useConversation({
-    onConnect: () => console.log('✅ ElevenLabs Connected'),
-    onDisconnect: () => console.log('❌ ElevenLabs Disconnected'),
+    micMuted: inputMode === 'text',
+    onConnect: () => {
+      console.log('✅ ElevenLabs Connected');
+      setTranscript(createSession(AGENT_CONFIG.agentId));
+    },
+    onConversationMetadata: (metadata) => {
+      // The output analyser runs at the agent's output sample rate
+      const outputSampleRate = parseSampleRate(metadata.agent_output_audio_format);
+      console.log(`🔊 Agent output format: ${metadata.agent_output_audio_format}`);
+      elevenLabsSource.setOutputFormat(metadata.agent_output_audio_format);
+      setSampleRate(outputSampleRate);
+    },
+    // Raw agent audio, replayed into a stream for session recording
+    onAudio: (base64) => elevenLabsSource.pushAudio(base64),
+    // The SDK cuts the reply short; drop what is still queued for the recording too
+    onInterruption: () => elevenLabsSource.interrupt(),
+    onDisconnect: () => {
+      console.log('❌ ElevenLabs Disconnected');
+      setTranscript(session => session && { ...session, endedAt: Date.now() });
+      setIsThinking(false);
+    },
+    onModeChange: ({ mode }) => {
+      // The agent has started replying, so it's done thinking
+      if (mode === 'speaking') {
+        setIsThinking(false);
+      }
+    },
     onMessage: (message) => {
       console.log('💬 Message:', message);
-    },
-    onError: (error) => console.error('🚨 Error:', error),
-    clientTools: {
-      playAnimation: (parameters: { animation: string }) => {
-        console.log('🎭 Client tool called: playAnimation', parameters);
+      setTranscript(session => session && appendEntry(session, {
+        role: message.source === 'user' ? 'user' : 'agent',
+        text: message.message,
+      }));
 
-        // Trigger animation by updating state
-        setAnimationTrigger({
-          animation: parameters.animation,
+      // The user finished a turn: think until the agent starts speaking
+      if (message.source === 'user') {
+        setIsThinking(true);
+      }
+
+      // Agent responses drive the transcript-based lip sync
+      if (message.source === 'ai') {
+        setAgentTranscript({
+          text: message.message,
           timestamp: Date.now(),
         });
-
-        return `Animation "${parameters.animation}" triggered successfully`;
-      },
+      }
     },
+    onError: (error) => console.error('🚨 Error:', error),
+    clientTools: createAvatarTools(avatarTargets, recordToolCall),
   });
 
+  // Keep the ElevenLabs source pointed at the latest hook state
+  useEffect(() => {
+    elevenLabsSource.attach(conversation);
+  }, [elevenLabsSource, conversation]);
+
+  // Release the previous custom source when switching away from it
+  useEffect(() => {
+    return () => customSource?.dispose();
+  }, [customSource]);
+
   // Debug: Log conversation state changes
   console.log('🔄 Conversation State:', {
     status: conversation.status,
@@ -41,18 +205,30 @@ export function AvatarConversation() {
   const startConversation = useCallback(async () => {
     console.log('🎤 Starting conversation...');
     try {
-      // Request microphone permission
+      // Request microphone permission. Typed chat keeps a voice session with the
+      // mic muted, but the SDK opens the mic for any voice session, so without
+      // access fall back to a text-only session that the avatar mouths from the text.
       console.log('🎤 Requesting microphone permission...');
-      await navigator.mediaDevices.getUserMedia({ audio: true });
-      console.log('✅ Microphone permission granted');
+      let micAvailable = true;
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        stream.getTracks().forEach(track => track.stop());
+        console.log('✅ Microphone permission granted');
+      } catch (error) {
+        console.warn('⚠️ No microphone access, starting a text-only session:', error);
+        micAvailable = false;
+      }
+      setTextOnly(!micAvailable);
+      if (!micAvailable) setInputMode('text');
 
       // Start the conversation with your agent
-      console.log('🚀 Starting ElevenLabs session...');
-      await conversation.startSession({
-        agentId: 'agent_6301k6445fe3fb4b6t524awm29j6',
-        connectionType: 'websocket',
-        userId: 'YOUR_CUSTOMER_USER_ID' // Optional field for tracking your end user IDs
-      });
+      // Private agents fetch a signed URL or token from our API route first
+      console.log(`🚀 Starting ElevenLabs session (${AGENT_CONFIG.auth}, ${AGENT_CONFIG.connectionType})...`);
+      const sessionConfig = await getSessionConfig(AGENT_CONFIG);
+      await conversation.startSession(micAvailable
+        ? sessionConfig
+        // The agent must allow the text-only override in its security settings
+        : { ...sessionConfig, textOnly: true, overrides: { conversation: { textOnly: true } } });
       console.log('✅ Session started successfully');
 
     } catch (error) {
@@ -60,16 +236,116 @@ export function AvatarConversation() {
     }
   }, [conversation]);
 
+  const sendTextMessage = useCallback((text: string) => {
+    console.log('⌨️ Sending text message:', text);
+    conversation.sendUserMessage(text);
+
+    // Typed turns don't come back through onMessage, so log them here
+    setTranscript(session => session && appendEntry(session, { role: 'user', text }));
+    setIsThinking(true);
+  }, [conversation]);
+
+  // Commands from remote-control tools go through the agent's tools, so names and defaults resolve the same way
+  const remoteTools = useMemo(() => createAvatarTools(avatarTargets, (name, parameters, result) => {
+    console.log(`🎛️ Remote ${name}: ${result}`);
+  }), [avatarTargets]);
+
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    console.log('🎛️ Remote command:', command);
+
+    switch (command.type) {
+      case 'animation':
+        remoteTools.playAnimation(command);
+        break;
+      case 'emotion':
+        remoteTools.setEmotion(command);
+        break;
+      case 'gaze':
+        remoteTools.setGaze(command);
+        break;
+      case 'camera':
+        remoteTools.setCamera(command);
+        break;
+      case 'say': {
+        if (conversation.status !== 'connected') {
+          console.warn('⚠️ Remote "say" needs a connected agent');
+          return;
+        }
+        // The agent speaks with its own voice, so it is asked to read the line out.
+        // The line is quoted as a JSON string, so quotes in it can't end the quote early.
+        // Logged as a remote entry: the user never said it, and the agent's reply is logged as usual
+        conversation.sendUserMessage(`Say exactly this and nothing else: ${JSON.stringify(command.text)}`);
+        setTranscript(session => session && appendEntry(session, { role: 'remote', text: command.text }));
+        break;
+      }
+    }
+  }, [conversation, remoteTools]);
+
+  // The relay connection outlives re-renders, so it calls the latest handler through a ref
+  const remoteCommandRef = useRef(handleRemoteCommand);
+  useEffect(() => {
+    remoteCommandRef.current = handleRemoteCommand;
+  }, [handleRemoteCommand]);
+
+  useEffect(() => {
+    if (!REMOTE_CONTROL_URL) return;
+    const client = new RemoteControlClient(REMOTE_CONTROL_URL, (command) => remoteCommandRef.current(command));
+    return () => client.dispose();
+  }, []);
+
   const stopConversation = useCallback(async () => {
     console.log('🛑 Stopping conversation...');
     await conversation.endSession();
     console.log('✅ Conversation stopped');
   }, [conversation]);
 
+  const startCalibration = useCallback(() => {
+    setCalibrationProgress(0);
+    setCalibrationRequest({
+      profileName: AGENT_CONFIG.agentId,
+      durationMs: CALIBRATION_DURATION_MS,
+      timestamp: Date.now(),
+    });
+  }, []);
+
+  const handleCalibrationComplete = useCallback((profile: VoiceProfile) => {
+    saveVoiceProfile(profile);
+    setVoiceProfile(profile);
+    setCalibrationProgress(null);
+  }, []);
+
+  const resetVoiceProfile = useCallback(() => {
+    deleteVoiceProfile(AGENT_CONFIG.agentId);
+    setVoiceProfile(null);
+  }, []);
+
   return (
     <>
       {/* VRM Avatar Scene */}
-      <VRMScene conversation={conversation} animationTrigger={animationTrigger} />
+      <VRMScene
+        modelUrl={modelUrl}
+        audioSource={audioSource}
+        animationTrigger={animationTrigger}
+        agentTranscript={agentTranscript}
+        emotionTrigger={emotionTrigger}
+        gazeTrigger={gazeTrigger}
+        cameraTrigger={cameraTrigger}
+        environment={environment}
+        isThinking={isThinking}
+        textVoice={textOnly && !customSource}
+        voiceProfile={voiceProfile}
+        calibrationRequest={calibrationRequest}
+        onCalibrationProgress={setCalibrationProgress}
+        onCalibrationComplete={handleCalibrationComplete}
+        isRecording={isRecording}
+        onRecordingComplete={downloadRecording}
+        isCapturing={isCapturing}
+        onCaptureComplete={downloadCapture}
+        showStats={showStats}
+      />
+
+      {/* Conversation transcript */}
+      <TranscriptPanel currentSession={transcript} />
 
       {/* Conversation Controls */}
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-20">
@@ -89,6 +365,27 @@ export function AvatarConversation() {
             >
               Stop Conversation
             </button>
+            <button
+              onClick={() => setIsRecording(recording => !recording)}
+              className={`px-4 py-3 text-white rounded-lg font-medium transition-colors ${isRecording ? 'bg-red-600 animate-pulse' : 'bg-gray-700 hover:bg-gray-600'}`}
+              title="Record the avatar to WebM with an event log"
+            >
+              {isRecording ? '⏹ Stop Recording' : '⏺ Record'}
+            </button>
+            <button
+              onClick={() => setIsCapturing(capturing => !capturing)}
+              className={`px-4 py-3 text-white rounded-lg font-medium transition-colors ${isCapturing ? 'bg-amber-600 animate-pulse' : 'bg-gray-700 hover:bg-gray-600'}`}
+              title="Capture audio frames and triggers for deterministic replay"
+            >
+              {isCapturing ? '⏹ Stop Capture' : '🎞️ Capture'}
+            </button>
+            <button
+              onClick={() => setShowStats(shown => !shown)}
+              className={`px-4 py-3 text-white rounded-lg font-medium transition-colors ${showStats ? 'bg-gray-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+              title="Show frame rate, frame time and draw calls"
+            >
+              📊 Stats
+            </button>
           </div>
 
           <div className="flex flex-col items-center text-white">
@@ -98,7 +395,47 @@ export function AvatarConversation() {
             <p className="text-sm text-gray-300">
               Agent: <span className="font-medium">{conversation.isSpeaking ? 'Speaking' : 'Listening'}</span>
             </p>
+            {isRecording && audioSource === elevenLabsSource && !elevenLabsSource.hasRecordableAudio() && (
+              <p className="text-xs text-amber-300">
+                ⚠️ WebRTC sessions don&apos;t expose the agent&apos;s audio: this recording will be silent
+              </p>
+            )}
           </div>
+
+          <ChatInput
+            mode={inputMode}
+            onModeChange={setInputMode}
+            onSend={sendTextMessage}
+            onTyping={conversation.sendUserActivity}
+            voiceAvailable={!textOnly}
+            disabled={conversation.status !== 'connected'}
+          />
+
+          <ModelSelector modelUrl={modelUrl} onSelect={setModelUrl} />
+
+          <EnvironmentPanel settings={environment} onChange={changeEnvironment} />
+
+          <AudioSourceSelector current={audioSource.kind} onSelect={setCustomSource} />
+
+          <OverlayBroadcaster
+            audioSource={audioSource}
+            modelUrl={modelUrl}
+            animationTrigger={animationTrigger}
+            agentTranscript={agentTranscript}
+            emotionTrigger={emotionTrigger}
+            gazeTrigger={gazeTrigger}
+            cameraTrigger={cameraTrigger}
+            isThinking={isThinking}
+          />
+
+          <VoiceCalibrationPanel
+            profile={voiceProfile}
+            sampleRate={customSource ? customSource.getSampleRate() : sampleRate}
+            progress={calibrationProgress}
+            canCalibrate={conversation.status === 'connected'}
+            onCalibrate={startCalibration}
+            onReset={resetVoiceProfile}
+          />
         </div>
       </div>
     </>
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { DEFAULT_MODEL_URL, VRMScene } from './vrm-scene';
+import type { EmotionType } from '../utils/emotionController';
+import type { GazeDirection, GazeMode } from '../utils/gazeController';
+import { CameraShot, DEFAULT_CAMERA_SHOT } from '../utils/cameraDirector';
+import { DEFAULT_ENVIRONMENT, EnvironmentSettings } from '../utils/sceneEnvironment';
+import { BroadcastAudioSource, OVERLAY_HELLO_INTERVAL_MS, OverlayChannel } from '../utils/overlayChannel';
+
+interface AvatarOverlayProps {
+  // Pins the model; otherwise the overlay shows whatever the control page loads
+  modelUrl?: string;
+  shot?: CameraShot;
+  environment?: EnvironmentSettings;
+  showStats?: boolean;
+}
+
+/**
+ * Only the avatar, on a transparent page, for use as an OBS browser source.
+ * Everything else (conversation, audio playback) runs on the control page,
+ * which drives this overlay over a BroadcastChannel.
+ */
+export function AvatarOverlay({
+  modelUrl: pinnedModelUrl,
+  shot = DEFAULT_CAMERA_SHOT,
+  environment = DEFAULT_ENVIRONMENT,
+  showStats = false,
+}: AvatarOverlayProps) {
+  const audioSource = useMemo(() => new BroadcastAudioSource(), []);
+  const [modelUrl, setModelUrl] = useState(pinnedModelUrl ?? DEFAULT_MODEL_URL);
+  const [animationTrigger, setAnimationTrigger] = useState<{
+    animation: string;
+    timestamp: number;
+  } | null>(null);
+  const [agentTranscript, setAgentTranscript] = useState<{
+    text: string;
+    timestamp: number;
+  } | null>(null);
+  const [emotionTrigger, setEmotionTrigger] = useState<{
+    emotion: EmotionType;
+    intensity: number;
+    durationMs?: number;
+    timestamp: number;
+  } | null>(null);
+  const [gazeTrigger, setGazeTrigger] = useState<{
+    mode: GazeMode;
+    direction?: GazeDirection;
+    durationMs?: number;
+    timestamp: number;
+  } | null>(null);
+  const [cameraTrigger, setCameraTrigger] = useState<{
+    shot: CameraShot;
+    cut?: boolean;
+    timestamp: number;
+  } | null>(() => ({ shot, cut: true, timestamp: Date.now() }));
+  const [isThinking, setIsThinking] = useState(false);
+
+  // Follow the control page
+  useEffect(() => {
+    const channel = new OverlayChannel();
+
+    const unsubscribe = channel.subscribe((message) => {
+      switch (message.type) {
+        case 'audio':
+          audioSource.pushFrame(message);
+          break;
+        case 'model':
+          if (!pinnedModelUrl) setModelUrl(message.url);
+          break;
+        case 'animation':
+          setAnimationTrigger({ animation: message.animation, timestamp: message.timestamp });
+          break;
+        case 'transcript':
+          setAgentTranscript({ text: message.text, timestamp: message.timestamp });
+          break;
+        case 'emotion':
+          setEmotionTrigger({
+            emotion: message.emotion,
+            intensity: message.intensity,
+            durationMs: message.durationMs,
+            timestamp: message.timestamp,
+          });
+          break;
+        case 'gaze':
+          setGazeTrigger({
+            mode: message.mode,
+            direction: message.direction,
+            durationMs: message.durationMs,
+            timestamp: message.timestamp,
+          });
+          break;
+        case 'camera':
+          setCameraTrigger({ shot: message.shot, cut: message.cut, timestamp: message.timestamp });
+          break;
+        case 'thinking':
+          setIsThinking(message.isThinking);
+          break;
+      }
+    });
+
+    // Announce ourselves so the control page starts streaming audio
+    channel.post({ type: 'hello' });
+    const interval = setInterval(() => channel.post({ type: 'hello' }), OVERLAY_HELLO_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+      channel.close();
+    };
+  }, [audioSource, pinnedModelUrl]);
+
+  return (
+    <div className="overlay-root">
+      <VRMScene
+        modelUrl={modelUrl}
+        audioSource={audioSource}
+        animationTrigger={animationTrigger}
+        agentTranscript={agentTranscript}
+        emotionTrigger={emotionTrigger}
+        gazeTrigger={gazeTrigger}
+        cameraTrigger={cameraTrigger}
+        isThinking={isThinking}
+        environment={environment}
+        showHud={false}
+        showStats={showStats}
+      />
+    </div>
+  );
+}
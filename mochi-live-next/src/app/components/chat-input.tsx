@@ -0,0 +1,76 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+
+export type InputMode = 'voice' | 'text';
+
+interface ChatInputProps {
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+  onSend: (text: string) => void;
+  // Called while typing so the agent holds off on speaking
+  onTyping?: () => void;
+  // Voice is unavailable when the session was started without a microphone
+  voiceAvailable: boolean;
+  disabled: boolean;
+}
+
+export function ChatInput({ mode, onModeChange, onSend, onTyping, voiceAvailable, disabled }: ChatInputProps) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (!message || disabled) return;
+
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-white text-xs w-full">
+      <div className="flex rounded overflow-hidden">
+        <button
+          onClick={() => onModeChange('voice')}
+          disabled={!voiceAvailable}
+          className={`px-3 py-1 ${mode === 'voice' ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'} disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          🎤 Voice
+        </button>
+        <button
+          onClick={() => onModeChange('text')}
+          className={`px-3 py-1 ${mode === 'text' ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+        >
+          ⌨️ Text
+        </button>
+      </div>
+
+      {mode === 'text' && (
+        <form onSubmit={handleSubmit} className="flex gap-2 w-full">
+          <input
+            type="text"
+            value={text}
+            onChange={(event) => {
+              setText(event.target.value);
+              onTyping?.();
+            }}
+            placeholder={disabled ? 'Start a conversation to chat' : 'Type a message...'}
+            disabled={disabled}
+            className="flex-1 min-w-0 bg-gray-800 text-white text-sm rounded px-2 py-1 disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !text.trim()}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-500"
+          >
+            Send
+          </button>
+        </form>
+      )}
+
+      {!voiceAvailable && (
+        <p className="text-gray-400">No microphone access: the agent&apos;s voice is unavailable, so the avatar mouths its replies</p>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useConversation } from '@elevenlabs/react';
 import { useCallback } from 'react';
+import { getAgentConfig, getSessionConfig } from '../utils/agentConfig';
 
 export function Conversation() {
   const conversation = useConversation({
@@ -18,11 +19,8 @@ export function Conversation() {
       await navigator.mediaDevices.getUserMedia({ audio: true });
 
       // Start the conversation with your agent
-      await conversation.startSession({
-        agentId: 'agent_6301k6445fe3fb4b6t524awm29j6', // Replace with your agent ID
-        connectionType: 'websocket',
-        userId: 'YOUR_CUSTOMER_USER_ID' // Optional field for tracking your end user IDs
-      });
+      // Configure the agent with NEXT_PUBLIC_ELEVENLABS_* env vars
+      await conversation.startSession(await getSessionConfig(getAgentConfig()));
 
     } catch (error) {
       console.error('Failed to start conversation:', error);
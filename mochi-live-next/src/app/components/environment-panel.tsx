@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  BackgroundSettings,
+  CHROMA_KEY_GREEN,
+  DEFAULT_BACKGROUND_COLOR,
+  EnvironmentSettings,
+  LIGHTING_PRESETS,
+  LightingPreset,
+} from '../utils/sceneEnvironment';
+
+interface EnvironmentPanelProps {
+  settings: EnvironmentSettings;
+  onChange: (settings: EnvironmentSettings) => void;
+}
+
+type BackgroundType = BackgroundSettings['type'];
+
+const BACKGROUND_LABELS: Record<BackgroundType, string> = {
+  color: 'Solid color',
+  image: 'Image',
+  hdri: 'HDRI (.hdr / .exr)',
+  chromaKey: 'Chroma key',
+  transparent: 'Transparent',
+};
+
+export function EnvironmentPanel({ settings, onChange }: EnvironmentPanelProps) {
+  const background = settings.background;
+  const [urlInput, setUrlInput] = useState('url' in background && !background.url.startsWith('blob:') ? background.url : '');
+  // Image and HDRI backgrounds need a URL first, so the choice is held here until then
+  const [pendingType, setPendingType] = useState<'image' | 'hdri' | null>(null);
+  const shownType: BackgroundType = pendingType ?? background.type;
+  const objectUrlRef = useRef<string | null>(null);
+
+  // Release the object URL of a picked file once it is no longer shown
+  useEffect(() => {
+    const current = 'url' in background ? background.url : null;
+    if (objectUrlRef.current && objectUrlRef.current !== current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+  }, [background]);
+
+  useEffect(() => () => {
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+  }, []);
+
+  const update = (changes: Partial<EnvironmentSettings>) => onChange({ ...settings, ...changes });
+
+  const selectType = (type: BackgroundType) => {
+    setPendingType(null);
+    switch (type) {
+      case 'color':
+        update({ background: { type, color: DEFAULT_BACKGROUND_COLOR } });
+        break;
+      case 'chromaKey':
+        update({ background: { type, color: CHROMA_KEY_GREEN } });
+        break;
+      case 'transparent':
+        update({ background: { type } });
+        break;
+      case 'image':
+      case 'hdri':
+        if (type !== background.type) setPendingType(type);
+        break;
+    }
+  };
+
+  const selectUrl = (url: string, format?: 'hdr' | 'exr') => {
+    setPendingType(null);
+    if (shownType === 'image') update({ background: { type: 'image', url } });
+    if (shownType === 'hdri') update({ background: { type: 'hdri', url, format } });
+  };
+
+  // Object URLs have no extension, so the HDRI format comes from the file name
+  const selectFile = (file: File | undefined) => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    selectUrl(url, file.name.toLowerCase().endsWith('.exr') ? 'exr' : 'hdr');
+    objectUrlRef.current = url;
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-white text-xs">
+      <div className="flex items-center gap-2">
+        <label htmlFor="environment-background" className="text-gray-300">Background</label>
+        <select
+          id="environment-background"
+          value={shownType}
+          onChange={(event) => selectType(event.target.value as BackgroundType)}
+          className="bg-gray-800 text-white rounded px-2 py-1"
+        >
+          {(Object.keys(BACKGROUND_LABELS) as BackgroundType[]).map(type => (
+            <option key={type} value={type}>{BACKGROUND_LABELS[type]}</option>
+          ))}
+        </select>
+
+        {background.type === 'color' && !pendingType && (
+          <input
+            type="color"
+            value={background.color}
+            onChange={(event) => update({ background: { type: 'color', color: event.target.value } })}
+            className="w-8 h-6 bg-transparent"
+          />
+        )}
+
+        <label htmlFor="environment-lighting" className="text-gray-300 ml-2">Lighting</label>
+        <select
+          id="environment-lighting"
+          value={settings.lighting}
+          onChange={(event) => update({ lighting: event.target.value as LightingPreset })}
+          className="bg-gray-800 text-white rounded px-2 py-1"
+        >
+          {LIGHTING_PRESETS.map(preset => (
+            <option key={preset} value={preset}>{preset}</option>
+          ))}
+        </select>
+      </div>
+
+      {(shownType === 'image' || shownType === 'hdri') && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={urlInput}
+            onChange={(event) => setUrlInput(event.target.value)}
+            placeholder={shownType === 'hdri' ? 'https://.../studio.hdr' : 'https://.../background.jpg'}
+            className="bg-gray-800 text-white rounded px-2 py-1 w-48"
+          />
+          <button
+            onClick={() => urlInput.trim() && selectUrl(urlInput.trim())}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            Load
+          </button>
+          <input
+            type="file"
+            accept={shownType === 'hdri' ? '.hdr,.exr' : 'image/*'}
+            onChange={(event) => selectFile(event.target.files?.[0])}
+            className="text-gray-300 w-48"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-1 text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.shadows}
+            disabled={background.type === 'chromaKey'}
+            onChange={(event) => update({ shadows: event.target.checked })}
+          />
+          Shadows
+        </label>
+        <label className="flex items-center gap-1 text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.ground}
+            disabled={background.type === 'chromaKey'}
+            onChange={(event) => update({ ground: event.target.checked })}
+          />
+          Ground
+        </label>
+      </div>
+    </div>
+  );
+}
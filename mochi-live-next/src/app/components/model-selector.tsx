@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface ModelSelectorProps {
+  modelUrl: string;
+  onSelect: (url: string) => void;
+}
+
+const isVrmFile = (file: File) => file.name.toLowerCase().endsWith('.vrm');
+
+export function ModelSelector({ modelUrl, onSelect }: ModelSelectorProps) {
+  const [urlInput, setUrlInput] = useState(modelUrl.startsWith('blob:') ? '' : modelUrl);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const objectUrlRef = useRef<string | null>(null);
+
+  // Object URLs for dropped files are released once another model replaces them
+  const selectUrl = (url: string) => {
+    if (objectUrlRef.current && objectUrlRef.current !== url) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+    setError(null);
+    onSelect(url);
+  };
+
+  const selectFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!isVrmFile(file)) {
+      setError(`${file.name} is not a .vrm file`);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    selectUrl(url);
+    objectUrlRef.current = url;
+    console.log(`📦 Loading dropped model: ${file.name}`);
+  };
+
+  const selectFileRef = useRef(selectFile);
+  selectFileRef.current = selectFile;
+
+  // Accept .vrm files dropped anywhere on the page
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setIsDragging(true);
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      // Only when leaving the window, not when moving between elements
+      if (event.relatedTarget === null) setIsDragging(false);
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setIsDragging(false);
+      selectFileRef.current(event.dataTransfer?.files[0]);
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      if (objectUrlRef.current) {
+        URL.revokeObjectURL(objectUrlRef.current);
+        objectUrlRef.current = null;
+      }
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-white text-xs">
+      <div className="flex items-center gap-2">
+        <label htmlFor="model-url" className="text-gray-300">Model</label>
+        <input
+          id="model-url"
+          type="text"
+          value={urlInput}
+          placeholder="https://.../avatar.vrm"
+          onChange={(event) => setUrlInput(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' && urlInput.trim()) selectUrl(urlInput.trim());
+          }}
+          className="bg-gray-800 text-white rounded px-2 py-1 w-48"
+        />
+        <button
+          onClick={() => selectUrl(urlInput.trim())}
+          disabled={!urlInput.trim()}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-500"
+        >
+          Load
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept=".vrm"
+        onChange={(event) => selectFile(event.target.files?.[0])}
+        className="text-gray-300"
+      />
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {/* Drop target hint while a file is dragged over the page */}
+      {isDragging && (
+        <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/60 border-4 border-dashed border-blue-400 pointer-events-none">
+          <p className="text-white text-lg font-medium">Drop a .vrm file to load it</p>
+        </div>
+      )}
+    </div>
+  );
+}
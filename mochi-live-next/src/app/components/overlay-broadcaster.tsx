@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { AvatarAudioSource } from '../utils/audioSources';
+import type { EmotionType } from '../utils/emotionController';
+import type { GazeDirection, GazeMode } from '../utils/gazeController';
+import type { CameraShot } from '../utils/cameraDirector';
+import { OVERLAY_TIMEOUT_MS, OverlayChannel } from '../utils/overlayChannel';
+
+interface OverlayBroadcasterProps {
+  audioSource: AvatarAudioSource;
+  modelUrl: string;
+  animationTrigger: { animation: string; timestamp: number } | null;
+  agentTranscript: { text: string; timestamp: number } | null;
+  emotionTrigger: { emotion: EmotionType; intensity: number; durationMs?: number; timestamp: number } | null;
+  gazeTrigger: { mode: GazeMode; direction?: GazeDirection; durationMs?: number; timestamp: number } | null;
+  cameraTrigger: { shot: CameraShot; cut?: boolean; timestamp: number } | null;
+  isThinking: boolean;
+}
+
+// Audio frames are sent on a timer, since requestAnimationFrame stops in background tabs
+const AUDIO_FRAME_INTERVAL_MS = 1000 / 60;
+
+/**
+ * Mirrors the avatar's triggers and audio to /overlay pages in other tabs.
+ * Shows whether an overlay is connected.
+ */
+export function OverlayBroadcaster({
+  audioSource,
+  modelUrl,
+  animationTrigger,
+  agentTranscript,
+  emotionTrigger,
+  gazeTrigger,
+  cameraTrigger,
+  isThinking,
+}: OverlayBroadcasterProps) {
+  const channelRef = useRef<OverlayChannel | null>(null);
+  const lastHelloRef = useRef(-Infinity);
+  const stateRef = useRef({ audioSource, modelUrl, isThinking });
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    stateRef.current = { audioSource, modelUrl, isThinking };
+  }, [audioSource, modelUrl, isThinking]);
+
+  // Answer overlays, and stream audio frames while one is listening
+  useEffect(() => {
+    const channel = new OverlayChannel();
+    channelRef.current = channel;
+
+    const unsubscribe = channel.subscribe((message) => {
+      if (message.type !== 'hello') return;
+
+      // A new overlay needs the current state
+      if (performance.now() - lastHelloRef.current > OVERLAY_TIMEOUT_MS) {
+        console.log('📺 Overlay connected');
+        channel.post({ type: 'model', url: stateRef.current.modelUrl });
+        channel.post({ type: 'thinking', isThinking: stateRef.current.isThinking });
+      }
+      lastHelloRef.current = performance.now();
+      setConnected(true);
+    });
+
+    const interval = setInterval(() => {
+      if (performance.now() - lastHelloRef.current > OVERLAY_TIMEOUT_MS) {
+        setConnected(false);
+        return;
+      }
+
+      const source = stateRef.current.audioSource;
+      channel.post({
+        type: 'audio',
+        data: source.getOutputByteFrequencyData() ?? null,
+        speaking: source.isSpeaking(),
+        sampleRate: source.getSampleRate(),
+        fftSize: source.getFftSize(),
+      });
+    }, AUDIO_FRAME_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'model', url: modelUrl });
+  }, [modelUrl]);
+
+  useEffect(() => {
+    if (animationTrigger) channelRef.current?.post({ type: 'animation', ...animationTrigger });
+  }, [animationTrigger]);
+
+  useEffect(() => {
+    if (agentTranscript) channelRef.current?.post({ type: 'transcript', ...agentTranscript });
+  }, [agentTranscript]);
+
+  useEffect(() => {
+    if (emotionTrigger) channelRef.current?.post({ type: 'emotion', ...emotionTrigger });
+  }, [emotionTrigger]);
+
+  useEffect(() => {
+    if (gazeTrigger) channelRef.current?.post({ type: 'gaze', ...gazeTrigger });
+  }, [gazeTrigger]);
+
+  useEffect(() => {
+    if (cameraTrigger) channelRef.current?.post({ type: 'camera', ...cameraTrigger });
+  }, [cameraTrigger]);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'thinking', isThinking });
+  }, [isThinking]);
+
+  if (!connected) return null;
+
+  return (
+    <p className="text-xs text-green-400">📺 Overlay connected</p>
+  );
+}
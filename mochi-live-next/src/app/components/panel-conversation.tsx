@@ -0,0 +1,338 @@
+'use client';
+
+import { useConversation } from '@elevenlabs/react';
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { VRMScene } from './vrm-scene';
+import { VRMAvatar } from './vrm-avatar';
+import type { EmotionType } from '../utils/emotionController';
+import type { GazeDirection, GazeMode } from '../utils/gazeController';
+import type { CameraShot } from '../utils/cameraDirector';
+import { ElevenLabsAudioSource } from '../utils/audioSources';
+import { createAvatarTools } from '../utils/avatarTools';
+import { getAgentConfig, getSessionConfig } from '../utils/agentConfig';
+
+// Connection type, auth and user id are shared by every seat; only the agent differs
+const AGENT_CONFIG = getAgentConfig();
+
+export interface PanelSeatConfig {
+  name: string;
+  agentId: string;
+  modelUrl?: string;
+}
+
+interface PanelConversationProps {
+  seats: PanelSeatConfig[];
+  // Replies passed on before the panel waits for a new topic
+  maxTurns: number;
+}
+
+type SeatStatus = {
+  status: string;
+  isSpeaking: boolean;
+  // A message is held until the seat connects
+  waiting: boolean;
+};
+
+/**
+ * Several agents in one scene taking turns: each seat has its own ElevenLabs
+ * session and avatar, and every reply is passed on to the next seat once the
+ * speaker has finished. The user starts each round with a topic.
+ */
+export function PanelConversation({ seats, maxTurns }: PanelConversationProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [statuses, setStatuses] = useState<SeatStatus[]>(() => seats.map(() => ({ status: 'disconnected', isSpeaking: false, waiting: false })));
+  const [inboxes, setInboxes] = useState<({ text: string; timestamp: number } | null)[]>(() => seats.map(() => null));
+  const [turn, setTurn] = useState(0);
+  const [topic, setTopic] = useState('');
+  const [roundError, setRoundError] = useState<string | null>(null);
+  const [cameraTrigger, setCameraTrigger] = useState<{
+    shot: CameraShot;
+    cut?: boolean;
+    timestamp: number;
+  } | null>(null);
+
+  const allConnected = statuses.every(seat => seat.status === 'connected');
+
+  const deliver = useCallback((index: number, text: string) => {
+    setInboxes(current => current.map((inbox, i) => i === index ? { text, timestamp: Date.now() } : inbox));
+  }, []);
+
+  const handleStatus = useCallback((index: number, status: SeatStatus) => {
+    setStatuses(current => current.map((seat, i) => i === index ? status : seat));
+  }, []);
+
+  // Pass a finished reply on to the next seat, until the round is over
+  const turnRef = useRef(turn);
+  const handleReply = useCallback((index: number, text: string) => {
+    const nextTurn = turnRef.current + 1;
+    turnRef.current = nextTurn;
+    setTurn(nextTurn);
+    if (nextTurn >= maxTurns) {
+      console.log(`🎙️ Panel round over after ${nextTurn} turns`);
+      return;
+    }
+
+    const next = (index + 1) % seats.length;
+    console.log(`🎙️ Turn ${nextTurn}: ${seats[index].name} → ${seats[next].name}`);
+    deliver(next, `${seats[index].name}: ${text}`);
+  }, [deliver, maxTurns, seats]);
+
+  // A seat dropped out mid-round: end the round and say why
+  const handleUndelivered = useCallback((index: number) => {
+    turnRef.current = maxTurns;
+    setTurn(maxTurns);
+    setRoundError(`${seats[index].name} isn't connected, so the round ended. Restart the panel to go on.`);
+  }, [maxTurns, seats]);
+
+  const startRound = (event: FormEvent) => {
+    event.preventDefault();
+    const text = topic.trim();
+    if (!text || !allConnected) return;
+
+    setRoundError(null);
+    turnRef.current = 0;
+    setTurn(0);
+    setTopic('');
+    deliver(0, text);
+  };
+
+  return (
+    <>
+      <VRMScene cameraTrigger={cameraTrigger}>
+        {seats.map((seat, index) => (
+          <PanelSeat
+            key={index}
+            index={index}
+            seat={seat}
+            isRunning={isRunning}
+            inbox={inboxes[index]}
+            onStatus={handleStatus}
+            onUndelivered={handleUndelivered}
+            onReply={handleReply}
+            onCamera={setCameraTrigger}
+          />
+        ))}
+      </VRMScene>
+
+      {/* Panel controls */}
+      <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-20">
+        <div className="flex flex-col items-center gap-4 bg-black/50 p-6 rounded-lg backdrop-blur-sm text-white">
+          <div className="flex gap-2">
+            {seats.map((seat, index) => (
+              <div key={index} className="px-3 py-2 bg-gray-800/80 rounded text-xs min-w-28">
+                <div className="font-medium flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${statuses[index].isSpeaking ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
+                  {seat.name}
+                </div>
+                <div className="text-gray-300">{statuses[index].status}</div>
+                {statuses[index].waiting && <div className="text-amber-300">Message waiting</div>}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsRunning(true)}
+              disabled={isRunning}
+              className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium disabled:bg-gray-300 disabled:cursor-not-allowed hover:bg-blue-600 transition-colors"
+            >
+              Start Panel
+            </button>
+            <button
+              onClick={() => setIsRunning(false)}
+              disabled={!isRunning}
+              className="px-6 py-3 bg-red-500 text-white rounded-lg font-medium disabled:bg-gray-300 disabled:cursor-not-allowed hover:bg-red-600 transition-colors"
+            >
+              Stop Panel
+            </button>
+          </div>
+
+          <form onSubmit={startRound} className="flex gap-2 text-xs w-full">
+            <input
+              value={topic}
+              onChange={(event) => setTopic(event.target.value)}
+              disabled={!allConnected}
+              placeholder={allConnected ? `Topic for ${seats[0].name}...` : 'Start the panel first'}
+              className="flex-1 px-3 py-2 rounded bg-gray-800 text-white placeholder-gray-400 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!allConnected || !topic.trim()}
+              className="px-3 py-2 bg-blue-500 rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-600"
+            >
+              Ask
+            </button>
+          </form>
+
+          <p className="text-xs text-gray-300">Turn {Math.min(turn, maxTurns)} of {maxTurns}</p>
+          {roundError && <p className="text-xs text-red-400">{roundError}</p>}
+        </div>
+      </div>
+    </>
+  );
+}
+
+interface PanelSeatProps {
+  index: number;
+  seat: PanelSeatConfig;
+  // Connect while true
+  isRunning: boolean;
+  // Latest message addressed to this seat
+  inbox: { text: string; timestamp: number } | null;
+  onStatus: (index: number, status: SeatStatus) => void;
+  // A message couldn't reach the seat, so the round can't go on
+  onUndelivered: (index: number) => void;
+  // The seat finished speaking a reply
+  onReply: (index: number, text: string) => void;
+  onCamera: (trigger: { shot: CameraShot; cut?: boolean; timestamp: number }) => void;
+}
+
+/**
+ * One panelist: an ElevenLabs session driving one avatar. The microphone stays
+ * muted, so the agents only hear each other's replies and the user's topics.
+ */
+function PanelSeat({ index, seat, isRunning, inbox, onStatus, onUndelivered, onReply, onCamera }: PanelSeatProps) {
+  const [animationTrigger, setAnimationTrigger] = useState<{
+    animation: string;
+    timestamp: number;
+  } | null>(null);
+  const [agentTranscript, setAgentTranscript] = useState<{
+    text: string;
+    timestamp: number;
+  } | null>(null);
+  const [emotionTrigger, setEmotionTrigger] = useState<{
+    emotion: EmotionType;
+    intensity: number;
+    durationMs?: number;
+    timestamp: number;
+  } | null>(null);
+  const [gazeTrigger, setGazeTrigger] = useState<{
+    mode: GazeMode;
+    direction?: GazeDirection;
+    durationMs?: number;
+    timestamp: number;
+  } | null>(null);
+  const [isThinking, setIsThinking] = useState(false);
+  const [waiting, setWaiting] = useState(false);
+
+  const audioSource = useMemo(() => new ElevenLabsAudioSource(AGENT_CONFIG.connectionType), []);
+
+  // Reply text collected while the agent speaks, passed on once it is done
+  const replyRef = useRef('');
+
+  const conversation = useConversation({
+    micMuted: true,
+    onConnect: () => console.log(`✅ ${seat.name} connected`),
+    onConversationMetadata: (metadata) => audioSource.setOutputFormat(metadata.agent_output_audio_format),
+    onAudio: (base64) => audioSource.pushAudio(base64),
+    onInterruption: () => audioSource.interrupt(),
+    onDisconnect: () => {
+      console.log(`❌ ${seat.name} disconnected`);
+      replyRef.current = '';
+      setIsThinking(false);
+    },
+    onModeChange: ({ mode }) => {
+      if (mode === 'speaking') {
+        setIsThinking(false);
+      } else if (replyRef.current) {
+        // Finished speaking: hand the floor to the next seat
+        const reply = replyRef.current;
+        replyRef.current = '';
+        onReply(index, reply);
+      }
+    },
+    onMessage: (message) => {
+      if (message.source !== 'ai') return;
+      console.log(`💬 ${seat.name}:`, message.message);
+      replyRef.current = replyRef.current ? `${replyRef.current} ${message.message}` : message.message;
+      setAgentTranscript({ text: message.message, timestamp: Date.now() });
+    },
+    onError: (error) => console.error(`🚨 ${seat.name} error:`, error),
+    clientTools: createAvatarTools({
+      playAnimation: (animation) => setAnimationTrigger({ animation, timestamp: Date.now() }),
+      setEmotion: (emotion, intensity, durationMs) => setEmotionTrigger({ emotion, intensity, durationMs, timestamp: Date.now() }),
+      setGaze: (mode, direction, durationMs) => setGazeTrigger({ mode, direction, durationMs, timestamp: Date.now() }),
+      setCamera: (shot, cut) => onCamera({ shot, cut, timestamp: Date.now() }),
+    }),
+  });
+
+  // Keep the ElevenLabs source pointed at the latest hook state
+  useEffect(() => {
+    audioSource.attach(conversation);
+  }, [audioSource, conversation]);
+
+  useEffect(() => {
+    onStatus(index, { status: conversation.status, isSpeaking: conversation.isSpeaking, waiting });
+  }, [index, onStatus, conversation.status, conversation.isSpeaking, waiting]);
+
+  // Connect and disconnect with the panel (the session hook isn't stable, so it is read through a ref)
+  const conversationRef = useRef(conversation);
+  useEffect(() => {
+    conversationRef.current = conversation;
+  }, [conversation]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const start = async () => {
+      try {
+        console.log(`🚀 Starting session for ${seat.name} (${seat.agentId})...`);
+        await conversationRef.current.startSession(await getSessionConfig({ ...AGENT_CONFIG, agentId: seat.agentId }));
+      } catch (error) {
+        console.error(`❌ Failed to start ${seat.name}:`, error);
+      }
+    };
+    void start();
+
+    return () => {
+      void conversationRef.current.endSession();
+    };
+  }, [isRunning, seat.name, seat.agentId]);
+
+  // Messages from the user or the other panelists, held while the seat (re)connects
+  const deliveredRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!inbox || inbox.timestamp === deliveredRef.current) return;
+
+    if (!isRunning) {
+      // The panel was stopped: the round is over
+      console.warn(`⚠️ Dropping message to ${seat.name}, the panel is stopped`);
+      deliveredRef.current = inbox.timestamp;
+      setWaiting(false);
+      return;
+    }
+    if (conversation.status === 'connecting') {
+      console.log(`📥 Holding message to ${seat.name} until connected`);
+      setWaiting(true);
+      return;
+    }
+    if (conversation.status !== 'connected') {
+      // The seat dropped out: nobody will pick the conversation up from here
+      console.warn(`⚠️ ${seat.name} isn't connected, ending the round`);
+      deliveredRef.current = inbox.timestamp;
+      setWaiting(false);
+      onUndelivered(index);
+      return;
+    }
+
+    console.log(`📨 To ${seat.name}:`, inbox.text);
+    deliveredRef.current = inbox.timestamp;
+    setWaiting(false);
+    conversationRef.current.sendUserMessage(inbox.text);
+    setIsThinking(true);
+  }, [inbox, isRunning, conversation.status, index, seat.name, onUndelivered]);
+
+  return (
+    <VRMAvatar
+      name={seat.name}
+      modelUrl={seat.modelUrl}
+      audioSource={audioSource}
+      animationTrigger={animationTrigger}
+      agentTranscript={agentTranscript}
+      emotionTrigger={emotionTrigger}
+      gazeTrigger={gazeTrigger}
+      isThinking={isThinking}
+      showHud={false}
+    />
+  );
+}
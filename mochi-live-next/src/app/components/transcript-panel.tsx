@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  TranscriptSession,
+  deleteSession,
+  downloadSession,
+  listSessions,
+} from '../utils/transcriptStore';
+
+interface TranscriptPanelProps {
+  // The live session, or null before the first conversation
+  currentSession: TranscriptSession | null;
+}
+
+const ROLE_STYLES = {
+  user: 'bg-blue-500/30 self-end',
+  agent: 'bg-gray-700/60 self-start',
+  tool: 'bg-transparent text-gray-400 italic self-center text-xs',
+  remote: 'bg-purple-500/30 self-end',
+} as const;
+
+const ROLE_LABELS = {
+  user: 'You',
+  agent: 'Agent',
+  tool: '🛠️',
+  remote: '🎛️ Remote',
+} as const;
+
+export function TranscriptPanel({ currentSession }: TranscriptPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pastSessions, setPastSessions] = useState<TranscriptSession[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Refresh saved sessions whenever the panel opens or a session starts
+  useEffect(() => {
+    if (!isOpen) return;
+
+    listSessions()
+      .then(setPastSessions)
+      .catch(err => {
+        console.error('❌ Failed to load transcripts:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  }, [isOpen, currentSession?.id]);
+
+  // The live session always comes from props so it stays up to date
+  const selected = selectedId && selectedId !== currentSession?.id
+    ? pastSessions.find(s => s.id === selectedId)
+    : undefined;
+  const session = selected ?? currentSession ?? pastSessions[0] ?? null;
+
+  // Keep the newest turn in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [session?.entries.length]);
+
+  const removeSelected = async () => {
+    if (!session || session.id === currentSession?.id) return;
+    try {
+      await deleteSession(session.id);
+      setPastSessions(sessions => sessions.filter(s => s.id !== session.id));
+      setSelectedId(null);
+    } catch (err) {
+      console.error('❌ Failed to delete transcript:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed top-4 left-4 z-20 px-3 py-2 bg-black/50 text-white text-sm rounded-lg backdrop-blur-sm hover:bg-black/70 transition-colors"
+      >
+        Transcript
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 left-4 bottom-4 z-20 w-80 flex flex-col gap-2 bg-black/60 text-white p-3 rounded-lg backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <select
+          value={session?.id ?? ''}
+          onChange={(event) => setSelectedId(event.target.value || null)}
+          className="flex-1 min-w-0 bg-gray-800 text-white text-xs rounded px-2 py-1"
+        >
+          {currentSession && <option value={currentSession.id}>Current session</option>}
+          {pastSessions
+            .filter(s => s.id !== currentSession?.id)
+            .map(s => (
+              <option key={s.id} value={s.id}>
+                {new Date(s.startedAt).toLocaleString()} ({s.entries.length})
+              </option>
+            ))}
+          {!currentSession && pastSessions.length === 0 && <option value="">No conversations yet</option>}
+        </select>
+        <button onClick={() => setIsOpen(false)} className="text-gray-300 hover:text-white px-1" aria-label="Close transcript">
+          ✕
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto flex flex-col gap-2 text-sm">
+        {session?.entries.map((entry, index) => (
+          <div key={index} className={`max-w-[90%] rounded-lg px-2 py-1 ${ROLE_STYLES[entry.role]}`}>
+            <div className="text-[10px] text-gray-400">
+              {ROLE_LABELS[entry.role]} · {new Date(entry.timestamp).toLocaleTimeString()}
+            </div>
+            <div className="break-words">{entry.text}</div>
+            {entry.tool && <div className="text-[10px] text-gray-500">{entry.tool.result}</div>}
+          </div>
+        ))}
+        {session && session.entries.length === 0 && (
+          <p className="text-gray-400 text-xs text-center">Nothing said yet</p>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <div className="flex gap-2 text-xs">
+        <button
+          onClick={() => session && downloadSession(session, 'json')}
+          disabled={!session}
+          className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => session && downloadSession(session, 'markdown')}
+          disabled={!session}
+          className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+        >
+          Export Markdown
+        </button>
+        <button
+          onClick={removeSelected}
+          disabled={!session || session.id === currentSession?.id}
+          className="ml-auto px-2 py-1 bg-red-500/70 rounded hover:bg-red-500 disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
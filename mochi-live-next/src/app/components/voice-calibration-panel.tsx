@@ -0,0 +1,62 @@
+'use client';
+
+import type { VoiceProfile } from '../utils/frequencyToViseme';
+
+interface VoiceCalibrationPanelProps {
+  profile: VoiceProfile | null;
+  sampleRate: number | undefined;
+  progress: number | null; // null when not calibrating
+  canCalibrate: boolean;
+  onCalibrate: () => void;
+  onReset: () => void;
+}
+
+export function VoiceCalibrationPanel({
+  profile,
+  sampleRate,
+  progress,
+  canCalibrate,
+  onCalibrate,
+  onReset,
+}: VoiceCalibrationPanelProps) {
+  const isCalibrating = progress !== null;
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-white">
+      <p className="text-xs text-gray-300">
+        Voice profile: <span className="font-medium">{profile ? 'calibrated' : 'default'}</span>
+        {sampleRate && <span> · {sampleRate} Hz</span>}
+      </p>
+
+      {isCalibrating ? (
+        <div className="flex flex-col items-center gap-1">
+          <div className="text-xs text-gray-300">Listening to the agent... {Math.round(progress * 100)}%</div>
+          <div className="w-40 h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all duration-100"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={onCalibrate}
+            disabled={!canCalibrate}
+            className="px-3 py-1 text-xs bg-purple-500 text-white rounded disabled:bg-gray-500 disabled:cursor-not-allowed hover:bg-purple-600 transition-colors"
+          >
+            Calibrate Voice
+          </button>
+          {profile && (
+            <button
+              onClick={onReset}
+              className="px-3 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,480 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { VRM, VRMLoaderPlugin, VRMUtils } from '@pixiv/three-vrm';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { getVrmHipsHeight } from '../utils/motionImport';
+import { loadAnimationClip } from '../utils/animationCache';
+import type { VoiceProfile } from '../utils/frequencyToViseme';
+import type { AvatarAudioSource } from '../utils/audioSources';
+import type { EmotionType } from '../utils/emotionController';
+import type { GazeDirection, GazeMode } from '../utils/gazeController';
+import type { RecordingEventType } from '../utils/sessionRecorder';
+import type { CaptureEventType } from '../utils/sessionCapture';
+import { ANIMATION_MANIFEST, DEFAULT_ANIMATION_ID, getAnimation, resolveAnimation } from '../utils/animationRegistry';
+import { AnimationController } from '../utils/animationController';
+import { AvatarCharacter } from '../utils/avatarCharacter';
+import { useVRMScene } from './vrm-scene-context';
+
+export const DEFAULT_MODEL_URL = '/vrm/mochi-2.vrm';
+
+type ModelStatus =
+  | { state: 'loading'; stage: 'model' | 'idle'; progress: number } // progress 0-1
+  | { state: 'ready' }
+  | { state: 'error'; message: string };
+
+export interface VRMAvatarProps {
+  // Labels this avatar's events in recordings when a scene has several
+  name?: string;
+  // URL of the VRM to show; changing it swaps the model at runtime
+  modelUrl?: string;
+  // Audio the avatar lip syncs to (ElevenLabs, media file, microphone, PCM stream...)
+  audioSource?: AvatarAudioSource | null;
+  animationTrigger?: {
+    animation: string;
+    timestamp: number;
+  } | null;
+  agentTranscript?: {
+    text: string;
+    timestamp: number;
+  } | null;
+  emotionTrigger?: {
+    emotion: EmotionType;
+    intensity: number;
+    durationMs?: number;
+    timestamp: number;
+  } | null;
+  gazeTrigger?: {
+    mode: GazeMode;
+    direction?: GazeDirection;
+    durationMs?: number;
+    timestamp: number;
+  } | null;
+  // True between the end of the user's turn and the start of the agent's reply
+  isThinking?: boolean;
+  // The session sends no audio: mouth the agent's replies from their text instead
+  textVoice?: boolean;
+  voiceProfile?: VoiceProfile | null;
+  calibrationRequest?: {
+    profileName: string;
+    durationMs: number;
+    timestamp: number;
+  } | null;
+  onCalibrationProgress?: (progress: number) => void;
+  onCalibrationComplete?: (profile: VoiceProfile) => void;
+  // Strength of the procedural breathing, sway and weight shifts (0 turns them off)
+  idleMotionAmplitude?: number;
+  // Loading progress, errors and the speaking indicator; off for stream overlays
+  showHud?: boolean;
+}
+
+/**
+ * One character in a VRMScene: loads its model and animations and applies its triggers.
+ * The scene's render loop animates it; several can share a scene.
+ */
+export function VRMAvatar({
+  name,
+  modelUrl = DEFAULT_MODEL_URL,
+  audioSource,
+  animationTrigger,
+  agentTranscript,
+  emotionTrigger,
+  gazeTrigger,
+  isThinking = false,
+  textVoice = false,
+  voiceProfile,
+  calibrationRequest,
+  onCalibrationProgress,
+  onCalibrationComplete,
+  idleMotionAmplitude = 1,
+  showHud = true,
+}: VRMAvatarProps) {
+  const { cast, recorder, capture } = useVRMScene();
+
+  // Log to the recording (labelled when named) and, for the scene's primary avatar, to the capture
+  const logRef = useRef<(type: RecordingEventType | CaptureEventType, recorded: Record<string, unknown> | null, captured: Record<string, unknown> | null) => void>(() => {});
+  const [character] = useState(() => new AvatarCharacter({
+    onEvent: (type, data) => {
+      if (type === 'animation') logRef.current('animation', data, { animation: data.id });
+      if (type === 'thinking') logRef.current('thinking', null, data);
+    },
+  }));
+
+  useEffect(() => {
+    logRef.current = (type, recorded, captured) => {
+      if (recorded) recorder.logEvent(type as RecordingEventType, name ? { ...recorded, avatar: name } : recorded);
+      if (captured && cast.getPrimary() === character) capture.logEvent(type as CaptureEventType, captured);
+    };
+  }, [cast, recorder, capture, character, name]);
+
+  const calibrationCallbacksRef = useRef({ onCalibrationProgress, onCalibrationComplete });
+  const [modelStatus, setModelStatus] = useState<ModelStatus>({ state: 'loading', stage: 'model', progress: 0 });
+  const [animationProgress, setAnimationProgress] = useState<{ loaded: number; total: number } | null>(null);
+
+  // The speaking indicator changes every frame, so it is written to the DOM directly
+  const speakingDotRef = useRef<HTMLDivElement>(null);
+  const speakingLabelRef = useRef<HTMLSpanElement>(null);
+  const volumeMeterRef = useRef<HTMLDivElement>(null);
+  const volumeTextRef = useRef<HTMLDivElement>(null);
+  const volumeBarRef = useRef<HTMLDivElement>(null);
+
+  // Join the scene
+  useEffect(() => {
+    cast.add(character);
+    return () => {
+      cast.remove(character);
+      character.dispose();
+    };
+  }, [cast, character]);
+
+  useEffect(() => {
+    character.setAudioSource(audioSource ?? null);
+  }, [character, audioSource]);
+
+  useEffect(() => {
+    character.setTextVoice(textVoice);
+  }, [character, textVoice]);
+
+  useEffect(() => {
+    character.setVoiceProfile(voiceProfile ?? null);
+  }, [character, voiceProfile]);
+
+  useEffect(() => {
+    calibrationCallbacksRef.current = { onCalibrationProgress, onCalibrationComplete };
+  }, [onCalibrationProgress, onCalibrationComplete]);
+
+  useEffect(() => {
+    character.setIdleMotionAmplitude(idleMotionAmplitude);
+  }, [character, idleMotionAmplitude]);
+
+  // Update the speaking indicator after each frame
+  useEffect(() => {
+    let hudLabel: HTMLSpanElement | null = null;
+    let hudSpeaking: boolean | null = null;
+    let hudVolume = -1;
+
+    character.setFrameListener(({ speaking, volume }) => {
+      // The indicator remounts when the audio source comes and goes
+      if (speakingLabelRef.current !== hudLabel) {
+        hudLabel = speakingLabelRef.current;
+        hudSpeaking = null;
+        hudVolume = -1;
+      }
+      if (!hudLabel) return;
+
+      if (speaking !== hudSpeaking) {
+        hudSpeaking = speaking;
+        speakingDotRef.current?.classList.toggle('bg-green-500', speaking);
+        speakingDotRef.current?.classList.toggle('animate-pulse', speaking);
+        speakingDotRef.current?.classList.toggle('bg-gray-500', !speaking);
+        hudLabel.textContent = speaking ? 'AI Speaking' : 'AI Idle';
+        if (volumeMeterRef.current) volumeMeterRef.current.style.display = speaking ? '' : 'none';
+      }
+
+      const rounded = Math.round(volume);
+      if (rounded !== hudVolume) {
+        hudVolume = rounded;
+        if (volumeTextRef.current) volumeTextRef.current.textContent = `Volume: ${rounded}`;
+        if (volumeBarRef.current) volumeBarRef.current.style.width = `${Math.min(100, rounded)}%`;
+      }
+    });
+
+    return () => character.setFrameListener(null);
+  }, [character]);
+
+  // Load the VRM model, swapping out the previous one once the new one is ready
+  useEffect(() => {
+    let cancelled = false;
+    setModelStatus({ state: 'loading', stage: 'model', progress: 0 });
+    setAnimationProgress(null);
+
+    const loader = new GLTFLoader();
+    loader.register((parser) => new VRMLoaderPlugin(parser));
+
+    // Load idle first so the avatar can appear as soon as it has something to play
+    const loadIdleAnimation = async (vrm: VRM, modelKey: string | null, hipsHeight: number): Promise<AnimationController | null> => {
+      console.log('Loading idle animation...');
+
+      // Create the layered animation controller (owns the mixer) for the VRM
+      const controller = new AnimationController(vrm);
+      const idle = getAnimation(DEFAULT_ANIMATION_ID)!;
+
+      try {
+        controller.register(idle, await loadAnimationClip(idle, vrm, modelKey, hipsHeight));
+      } catch (error) {
+        // Idle is required
+        controller.dispose();
+        throw error;
+      }
+
+      if (cancelled) {
+        controller.dispose();
+        return null;
+      }
+      return controller;
+    };
+
+    // Load every other manifest animation in parallel, registering each as it arrives
+    const loadRemainingAnimations = async (vrm: VRM, controller: AnimationController, modelKey: string | null, hipsHeight: number) => {
+      const definitions = ANIMATION_MANIFEST.filter(definition => definition.id !== DEFAULT_ANIMATION_ID);
+      const total = definitions.length + 1;
+      let settled = 1;
+      setAnimationProgress({ loaded: settled, total });
+
+      await Promise.all(definitions.map(async (definition) => {
+        try {
+          const clip = await loadAnimationClip(definition, vrm, modelKey, hipsHeight);
+          if (cancelled) return;
+          controller.register(definition, clip);
+          console.log(`  ✅ ${definition.id} loaded: duration=${clip.duration.toFixed(3)}s (x${definition.timeScale} speed), tracks=${clip.tracks.length}`);
+        } catch (error) {
+          // A single broken clip shouldn't take the avatar down
+          console.error(`  ❌ Failed to load ${definition.id} from ${definition.file}:`, error);
+        } finally {
+          settled++;
+          if (!cancelled) setAnimationProgress({ loaded: settled, total });
+        }
+      }));
+
+      if (cancelled) return;
+      console.log('All animations loaded');
+      setAnimationProgress(null);
+    };
+
+    const loadModel = async () => {
+      let vrm: VRM | undefined;
+      try {
+        console.log(`Loading VRM model: ${modelUrl}`);
+        const gltf = await loader.loadAsync(modelUrl, (progress) => {
+          if (!cancelled && progress.total > 0) {
+            setModelStatus({ state: 'loading', stage: 'model', progress: progress.loaded / progress.total });
+          }
+        });
+
+        vrm = gltf.userData.vrm as VRM | undefined;
+        if (cancelled) {
+          VRMUtils.deepDispose(gltf.scene);
+          return;
+        }
+        if (!vrm) {
+          throw new Error('This file is a glTF model without VRM data');
+        }
+
+        // Rotate model 180 degrees to face camera
+        VRMUtils.rotateVRM0(vrm);
+
+        // Position arms down the sides
+        const humanoid = vrm.humanoid;
+
+        const leftUpperArm = humanoid.getNormalizedBoneNode('leftUpperArm');
+        const rightUpperArm = humanoid.getNormalizedBoneNode('rightUpperArm');
+        const leftLowerArm = humanoid.getNormalizedBoneNode('leftLowerArm');
+        const rightLowerArm = humanoid.getNormalizedBoneNode('rightLowerArm');
+
+        if (leftUpperArm) {
+          leftUpperArm.rotation.z = 0.5; // Rotate arm down (~28° from horizontal)
+        }
+        if (rightUpperArm) {
+          rightUpperArm.rotation.z = -0.5; // Rotate arm down (~28° from horizontal)
+        }
+        if (leftLowerArm) {
+          leftLowerArm.rotation.z = 0; // Keep lower arm straight
+        }
+        if (rightLowerArm) {
+          rightLowerArm.rotation.z = 0; // Keep lower arm straight
+        }
+
+        console.log('VRM model loaded successfully');
+
+        // Retarget the animations to this model's skeleton (cached per model URL;
+        // object URLs of dropped files change every time, so they skip the cache).
+        // Hips height is measured now, in rest pose, and reused for lazily loaded clips.
+        setModelStatus({ state: 'loading', stage: 'idle', progress: 1 });
+        const modelKey = modelUrl.startsWith('blob:') ? null : modelUrl;
+        const hipsHeight = getVrmHipsHeight(vrm);
+        const controller = await loadIdleAnimation(vrm, modelKey, hipsHeight);
+        if (!controller) {
+          VRMUtils.deepDispose(vrm.scene);
+          return;
+        }
+
+        // The new model is ready, so it replaces the old one (no T-pose flash in between)
+        character.setModel(vrm, controller);
+        cast.notify();
+        console.log('✨ Model visible with idle animation');
+
+        setModelStatus({ state: 'ready' });
+
+        // Stream in the rest of the animations
+        void loadRemainingAnimations(vrm, controller, modelKey, hipsHeight);
+      } catch (error) {
+        if (vrm && character.getVrm() !== vrm) VRMUtils.deepDispose(vrm.scene);
+        if (cancelled) return;
+        console.error('Error loading VRM model:', error);
+        setModelStatus({
+          state: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    loadModel();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cast, character, modelUrl]);
+
+  // Handle external animation triggers
+  useEffect(() => {
+    if (!animationTrigger || ignoredWhileReplaying(character, 'animation')) return;
+
+    console.log('🎮 Animation trigger received:', animationTrigger);
+
+    const definition = resolveAnimation(animationTrigger.animation);
+
+    if (definition) {
+      const result = character.play(definition.id, 0.5);
+      if (!result) return;
+      console.log(`🎮 ${definition.id}: ${result}`);
+      logRef.current('animation', { id: definition.id, result }, { animation: definition.id });
+    } else {
+      console.warn(`⚠️ Unknown animation: ${animationTrigger.animation}`);
+    }
+  }, [character, animationTrigger]);
+
+  // Feed agent responses into the transcript lip sync timeline
+  useEffect(() => {
+    if (!agentTranscript || ignoredWhileReplaying(character, 'transcript')) return;
+    character.addTranscript(agentTranscript.text);
+    logRef.current('transcript', { source: 'agent', text: agentTranscript.text }, { text: agentTranscript.text });
+  }, [character, agentTranscript]);
+
+  // Handle external emotion triggers
+  useEffect(() => {
+    if (!emotionTrigger || ignoredWhileReplaying(character, 'emotion')) return;
+
+    console.log('🎭 Emotion trigger received:', emotionTrigger);
+    character.setEmotion(emotionTrigger.emotion, {
+      intensity: emotionTrigger.intensity,
+      durationMs: emotionTrigger.durationMs,
+    });
+    const emotionEvent = {
+      emotion: emotionTrigger.emotion,
+      intensity: emotionTrigger.intensity,
+      durationMs: emotionTrigger.durationMs,
+    };
+    logRef.current('emotion', emotionEvent, emotionEvent);
+  }, [character, emotionTrigger]);
+
+  // Handle external gaze triggers
+  useEffect(() => {
+    if (!gazeTrigger || ignoredWhileReplaying(character, 'gaze')) return;
+
+    console.log('👀 Gaze trigger received:', gazeTrigger);
+    const applied = character.setGaze(gazeTrigger.mode, {
+      direction: gazeTrigger.direction,
+      durationMs: gazeTrigger.durationMs,
+    });
+    if (!applied) return;
+    const gazeEvent = {
+      mode: gazeTrigger.mode,
+      direction: gazeTrigger.direction,
+      durationMs: gazeTrigger.durationMs,
+    };
+    logRef.current('gaze', gazeEvent, gazeEvent);
+  }, [character, gazeTrigger]);
+
+  // Look away while thinking between turns
+  useEffect(() => {
+    if (ignoredWhileReplaying(character, 'thinking')) return;
+    character.setThinking(isThinking);
+    logRef.current('thinking', null, { isThinking });
+  }, [character, isThinking]);
+
+  // Start recording the agent's voice for calibration
+  useEffect(() => {
+    if (!calibrationRequest) return;
+
+    console.log(`🎙️ Calibrating voice profile "${calibrationRequest.profileName}" for ${calibrationRequest.durationMs}ms of speech`);
+    character.startCalibration(calibrationRequest.profileName, calibrationRequest.durationMs, {
+      onProgress: (progress) => calibrationCallbacksRef.current.onCalibrationProgress?.(progress),
+      onComplete: (profile) => calibrationCallbacksRef.current.onCalibrationComplete?.(profile),
+    });
+  }, [character, calibrationRequest]);
+
+  if (!showHud) return null;
+
+  return (
+    <>
+      {/* Model loading progress */}
+      {modelStatus.state === 'loading' && (
+        <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black/50 text-white p-4 rounded-lg backdrop-blur-sm">
+          <div className="text-sm mb-2">
+            {modelStatus.stage === 'model'
+              ? `Loading model... ${Math.round(modelStatus.progress * 100)}%`
+              : 'Preparing animations...'}
+          </div>
+          <div className="w-64 h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-green-500 to-blue-500 transition-all duration-100"
+              style={{ width: `${Math.round(modelStatus.progress * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Remaining animations streaming in after the avatar appears */}
+      {animationProgress && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-black/50 text-white text-xs px-3 py-2 rounded-lg backdrop-blur-sm">
+          <div className="mb-1">Loading animations {animationProgress.loaded}/{animationProgress.total}</div>
+          <div className="w-40 h-1 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-green-500 to-blue-500 transition-all duration-100"
+              style={{ width: `${(animationProgress.loaded / animationProgress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Model loading error */}
+      {modelStatus.state === 'error' && (
+        <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 max-w-md bg-red-900/80 text-white p-4 rounded-lg backdrop-blur-sm">
+          <div className="font-medium mb-1">Failed to load model</div>
+          <div className="text-sm text-red-100 break-words">{modelStatus.message}</div>
+          <div className="text-xs text-red-200 mt-2 break-all">{modelUrl}</div>
+        </div>
+      )}
+
+      {/* AI speaking status indicator */}
+      {audioSource && (
+        <div className="fixed top-4 right-4 bg-black/50 text-white p-4 rounded-lg backdrop-blur-sm">
+          <div className="flex items-center gap-2 mb-2">
+            <div ref={speakingDotRef} className="w-3 h-3 rounded-full bg-gray-500" />
+            <span ref={speakingLabelRef} className="text-sm">AI Idle</span>
+          </div>
+
+          <div ref={volumeMeterRef} className="space-y-1" style={{ display: 'none' }}>
+            <div ref={volumeTextRef} className="text-xs text-gray-300">Volume: 0</div>
+            <div className="w-32 h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                ref={volumeBarRef}
+                className="h-full bg-gradient-to-r from-green-500 to-blue-500 transition-all duration-100"
+                style={{ width: '0%' }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Replays follow the capture alone, so live triggers would make them diverge
+ */
+function ignoredWhileReplaying(character: AvatarCharacter, trigger: string): boolean {
+  if (!character.isReplaying()) return false;
+  console.log(`🎞️ Replaying, ignoring ${trigger} trigger`);
+  return true;
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { AvatarCast } from '../utils/avatarCharacter';
+import type { SessionRecorder } from '../utils/sessionRecorder';
+import type { SessionCapture } from '../utils/sessionCapture';
+
+/**
+ * What a VRMScene shares with the VRMAvatars inside it
+ */
+export interface VRMSceneContextValue {
+  cast: AvatarCast;
+  recorder: SessionRecorder;
+  capture: SessionCapture;
+}
+
+export const VRMSceneContext = createContext<VRMSceneContextValue | null>(null);
+
+export function useVRMScene(): VRMSceneContextValue {
+  const context = useContext(VRMSceneContext);
+  if (!context) {
+    throw new Error('VRMAvatar must be rendered inside a VRMScene');
+  }
+  return context;
+}
@@ -1,38 +1,75 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { ReactNode, useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { VRM, VRMLoaderPlugin, VRMUtils } from '@pixiv/three-vrm';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { loadMixamoAnimation } from '../utils/loadMixamoAnimation';
-import { frequencyToViseme, VisemeSmoother } from '../utils/frequencyToViseme';
-import { BlinkController } from '../utils/blinkController';
-
-interface VRMSceneProps {
-  conversation?: {
-    isSpeaking: boolean;
-    getOutputByteFrequencyData: () => Uint8Array | undefined;
-  };
-  animationTrigger?: {
-    animation: string;
+import { RecordingResult, SessionRecorder } from '../utils/sessionRecorder';
+import { ReplayAudioSource, SessionCapture, SessionCaptureFile } from '../utils/sessionCapture';
+import { createSeed } from '../utils/seededRandom';
+import { getAnimation } from '../utils/animationRegistry';
+import { AvatarCast } from '../utils/avatarCharacter';
+import { CameraDirector, CameraShot } from '../utils/cameraDirector';
+import { DEFAULT_ENVIRONMENT, EnvironmentSettings, SceneEnvironment } from '../utils/sceneEnvironment';
+import { RenderScheduler } from '../utils/renderScheduler';
+import { AdaptiveQuality, RenderStats } from '../utils/renderQuality';
+import { VRMAvatar, VRMAvatarProps } from './vrm-avatar';
+import { VRMSceneContext } from './vrm-scene-context';
+
+export { DEFAULT_MODEL_URL } from './vrm-avatar';
+
+interface VRMSceneProps extends Omit<VRMAvatarProps, 'name'> {
+  cameraTrigger?: {
+    shot: CameraShot;
+    cut?: boolean;
     timestamp: number;
   } | null;
+  // Record the canvas and avatar audio while true; the result arrives when it turns false
+  isRecording?: boolean;
+  onRecordingComplete?: (result: RecordingResult) => void;
+  // Capture per-frame audio data and triggers while true, for deterministic replay
+  isCapturing?: boolean;
+  onCaptureComplete?: (file: SessionCaptureFile) => void;
+  // Background, lighting and shadows
+  environment?: EnvironmentSettings;
+  // Frame rate, frame time and draw calls
+  showStats?: boolean;
+  // VRMAvatars to seat side by side; without any, the avatar props above describe a single one
+  children?: ReactNode;
 }
 
-export function VRMScene({ conversation, animationTrigger }: VRMSceneProps) {
+/**
+ * Renderer, camera, environment and render loop shared by the avatars inside it.
+ * Recordings take every avatar's audio; captures and replays follow the first avatar.
+ */
+export function VRMScene({
+  cameraTrigger,
+  isRecording = false,
+  onRecordingComplete,
+  isCapturing = false,
+  onCaptureComplete,
+  environment = DEFAULT_ENVIRONMENT,
+  showHud = true,
+  showStats = false,
+  children,
+  ...avatarProps
+}: VRMSceneProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vrmRef = useRef<VRM | null>(null);
-  const mixerRef = useRef<THREE.AnimationMixer | null>(null);
-  const idleActionRef = useRef<THREE.AnimationAction | null>(null);
-  const greetingActionRef = useRef<THREE.AnimationAction | null>(null);
-  const waveHipHopActionRef = useRef<THREE.AnimationAction | null>(null);
-  const northernSoulSpinActionRef = useRef<THREE.AnimationAction | null>(null);
   const clockRef = useRef<THREE.Clock>(new THREE.Clock());
-  const visemeSmootherRef = useRef<VisemeSmoother>(new VisemeSmoother());
-  const blinkControllerRef = useRef<BlinkController>(new BlinkController());
-  const playAnimationRef = useRef<((type: 'idle' | 'greeting' | 'waveHipHop' | 'northernSoulSpin', crossfadeDuration?: number) => void) | null>(null);
-  const [volume, setVolume] = useState(0);
+  const cameraDirectorRef = useRef<CameraDirector | null>(null);
+  const sceneEnvironmentRef = useRef<SceneEnvironment | null>(null);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  const onCaptureCompleteRef = useRef(onCaptureComplete);
+  // Stats change every frame, so the render loop writes them to the DOM directly
+  const statsRef = useRef<HTMLDivElement>(null);
+
+  // Avatars join the cast from their own effects, which run before this component's,
+  // so the cast and the recorders have to exist from the first render
+  const [sceneContext] = useState(() => ({
+    cast: new AvatarCast(),
+    recorder: new SessionRecorder(),
+    capture: new SessionCapture(),
+  }));
+  const { cast, recorder, capture } = sceneContext;
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -41,7 +78,7 @@ export function VRMScene({ conversation, animationTrigger }: VRMSceneProps) {
 
     // Scene setup
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x212121);
+    scene.add(cast.root);
 
     // Camera setup
     const camera = new THREE.PerspectiveCamera(
@@ -54,300 +91,131 @@ export function VRMScene({ conversation, animationTrigger }: VRMSceneProps) {
     camera.lookAt(0, 1.2, 0);
 
     // WebGL Renderer setup
+    // Antialiasing is fixed once the renderer exists, so it follows how the last session went
+    const antialias = AdaptiveQuality.shouldAntialias();
     const renderer = new THREE.WebGLRenderer({
       canvas: canvasRef.current,
-      antialias: true,
+      antialias,
       alpha: true
     });
     renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(window.devicePixelRatio);
     renderer.outputColorSpace = THREE.SRGBColorSpace;
 
-    // Lights
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
-    scene.add(ambientLight);
+    // Pixel ratio follows the measured frame time
+    const quality = new AdaptiveQuality(renderer, antialias);
+    const renderStats = new RenderStats();
 
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(1, 1, 1);
-    scene.add(directionalLight);
-
-    const backLight = new THREE.DirectionalLight(0xffffff, 0.4);
-    backLight.position.set(-1, 1, -1);
-    scene.add(backLight);
+    // Background, lights and ground (applied from the environment prop below)
+    const sceneEnvironment = new SceneEnvironment(scene, renderer);
+    sceneEnvironmentRef.current = sceneEnvironment;
 
     // Setup camera controls
     const controls = new OrbitControls(camera, renderer.domElement);
     controls.target.set(0, 1.2, 0);
     controls.enableDamping = true;
     controls.dampingFactor = 0.05;
-    controls.minDistance = 1;
-    controls.maxDistance = 5;
+    controls.minDistance = 0.3; // Close enough for a face close-up
+    controls.maxDistance = 6;
     controls.maxPolarAngle = Math.PI / 1.5;
     controls.update();
 
-    // Load VRM model
-    const loader = new GLTFLoader();
-    loader.register((parser) => new VRMLoaderPlugin(parser));
-
-    loader.load(
-      '/vrm/mochi-2.vrm',
-      (gltf) => {
-        const vrm = gltf.userData.vrm as VRM;
-        vrmRef.current = vrm;
-
-        // Rotate model 180 degrees to face camera
-        VRMUtils.rotateVRM0(vrm);
-
-        // Position arms down the sides
-        const humanoid = vrm.humanoid;
-
-        const leftUpperArm = humanoid.getNormalizedBoneNode('leftUpperArm');
-        const rightUpperArm = humanoid.getNormalizedBoneNode('rightUpperArm');
-        const leftLowerArm = humanoid.getNormalizedBoneNode('leftLowerArm');
-        const rightLowerArm = humanoid.getNormalizedBoneNode('rightLowerArm');
-
-        if (leftUpperArm) {
-          leftUpperArm.rotation.z = 0.5; // Rotate arm down (~28° from horizontal)
-        }
-        if (rightUpperArm) {
-          rightUpperArm.rotation.z = -0.5; // Rotate arm down (~28° from horizontal)
-        }
-        if (leftLowerArm) {
-          leftLowerArm.rotation.z = 0; // Keep lower arm straight
-        }
-        if (rightLowerArm) {
-          rightLowerArm.rotation.z = 0; // Keep lower arm straight
-        }
-
-        // Hide model initially to prevent T-pose flash
-        vrm.scene.visible = false;
-
-        scene.add(vrm.scene);
-        console.log('VRM model loaded successfully');
-
-        // Load animations and show model when idle starts
-        loadAnimations(vrm);
-      },
-      (progress) => {
-        console.log('Loading model...', 100 * (progress.loaded / progress.total), '%');
-      },
-      (error) => {
-        console.error('Error loading VRM model:', error);
-      }
-    );
-
-    // Always return to idle after any animation finishes
-    const selectNextAnimation = (): 'idle' | 'greeting' | 'waveHipHop' | 'northernSoulSpin' => {
-      return 'idle';
+    // Frames the avatars with shot presets; orbiting hands control to the user for a while
+    const cameraDirector = new CameraDirector(camera, controls);
+    cameraDirectorRef.current = cameraDirector;
+
+    // Reframe and cast shadows whenever avatars join, leave or swap models
+    const handleCastChange = () => {
+      const vrms = cast.getMembers()
+        .map(member => member.getVrm())
+        .filter(vrm => vrm !== null);
+      cameraDirector.setSubjects(vrms);
+      sceneEnvironment.setShadowCaster(cast.root);
+    };
+    const unsubscribeCast = cast.onChange(handleCastChange);
+    handleCastChange();
+
+    // Last time the user touched the canvas; the frame rate drops a while after
+    let lastInteractionMs = performance.now();
+    const interactionHoldMs = 3000;
+
+    // Nothing is moving much: no speech, listening, clips, recording, capture, replay or user input.
+    // Captures and replays step frame by frame, so they always run at the full rate.
+    const isSceneIdle = (replaying: boolean) => {
+      return !replaying
+        && !recorder.isRecording()
+        && !capture.isCapturing()
+        && !cast.getMembers().some(member => member.isActive())
+        && performance.now() - lastInteractionMs > interactionHoldMs;
     };
 
-    // Play selected animation with crossfade
-    const playAnimation = (type: 'idle' | 'greeting' | 'waveHipHop' | 'northernSoulSpin', crossfadeDuration: number = 0.5) => {
-      // Map animation type to action ref
-      const animationActions: Record<string, THREE.AnimationAction | null> = {
-        idle: idleActionRef.current,
-        greeting: greetingActionRef.current,
-        waveHipHop: waveHipHopActionRef.current,
-        northernSoulSpin: northernSoulSpinActionRef.current,
-      };
-
-      const newAction = animationActions[type];
-
-      if (!newAction) return;
-
-      console.log(`🎬 === Starting transition to: ${type} ===`);
-
-      // Log current state before transition
-      Object.entries(animationActions).forEach(([key, action]) => {
-        if (action) {
-          console.log(`  ${key}: running=${action.isRunning()}, weight=${action.getEffectiveWeight().toFixed(3)}, time=${action.time.toFixed(3)}/${action.getClip().duration.toFixed(3)}`);
-        }
-      });
-
-      // Special handling when transitioning TO idle
-      if (type === 'idle') {
-        // Fade out and stop all one-shot animations (including paused ones)
-        Object.entries(animationActions).forEach(([key, action]) => {
-          if (action && key !== 'idle') {
-            const isActive = action.isRunning() || action.paused;
-            if (isActive) {
-              console.log(`  🛑 Fading out and stopping: ${key} (paused: ${action.paused})`);
-              action.fadeOut(crossfadeDuration);
-
-              // CRITICAL FIX: Delay stop/reset until AFTER fadeOut completes
-              // This ensures the animation maintains weight during the entire crossfade
-              setTimeout(() => {
-                action.enabled = false; // Break bone influence
-                action.paused = false;
-                action.stop();
-                action.reset();
-                console.log(`  ✅ Cleanup complete for: ${key}`);
-              }, crossfadeDuration * 1000);
-            }
+    // Animation loop
+    const animate = (intervalMs: number | null) => {
+      const frameStart = performance.now();
+      let deltaTime = clockRef.current.getDelta();
+
+      // Replays step through the captured frames with their original timing
+      const primary = cast.getPrimary();
+      const primarySource = primary?.getAudioSource();
+      const replaySource = primarySource instanceof ReplayAudioSource ? primarySource : null;
+      const replayFrame = replaySource?.nextFrame();
+      if (replaySource && replayFrame) {
+        deltaTime = replayFrame.deltaMs / 1000;
+        // Every pass restarts the motion the capture started with
+        if (replayFrame.first) primary?.resetMotion(replaySource.getSeed());
+        replayFrame.events.forEach(event => {
+          if (event.type === 'camera') {
+            cameraDirector.setShot(event.data.shot as CameraShot, { cut: Boolean(event.data.cut) });
+          } else {
+            primary?.applyCapturedEvent(event);
           }
         });
-
-        // Idle should always be playing in background, just fade it back in
-        if (!newAction.isRunning()) {
-          console.log(`  ▶️ Restarting idle (was stopped)`);
-          newAction.play();
-        } else {
-          console.log(`  ⬆️ Fading in idle (was running at time: ${newAction.time.toFixed(3)})`);
-        }
-      } else {
-        // When transitioning FROM idle to one-shot animation
-        // Fade out idle (but keep it running in background)
-        if (idleActionRef.current && idleActionRef.current.isRunning()) {
-          console.log(`  ⬇️ Fading out: idle (weight: ${idleActionRef.current.getEffectiveWeight().toFixed(3)} → 0)`);
-          idleActionRef.current.fadeOut(crossfadeDuration);
-        }
-
-        // Reset one-shot animations to start from beginning
-        console.log(`  🔄 Resetting ${type} to frame 0`);
-        newAction.reset();
       }
 
-      // Enable and play new animation with fade in
-      newAction.enabled = true;
-      newAction.setEffectiveTimeScale(1);
-      newAction.setEffectiveWeight(1);
-      console.log(`  ⬆️ Fading in: ${type} (weight: ${newAction.getEffectiveWeight().toFixed(3)} → 1)`);
-      newAction.fadeIn(crossfadeDuration);
-      if (type !== 'idle') {
-        newAction.play();
-      }
+      // Listeners face whoever is talking, then every avatar runs its frame
+      cast.updateFocus();
+      let dancing = false;
+      for (const member of cast.getMembers()) {
+        const frame = member.update(deltaTime * 1000, camera);
 
-      console.log(`🎬 === Transition to ${type} started ===\n`);
-    };
-
-    // Store playAnimation function in ref for external access
-    playAnimationRef.current = playAnimation;
-
-    // Load and apply Mixamo FBX animations with proper retargeting
-    const loadAnimations = async (vrm: VRM) => {
-      try {
-        console.log('Loading animations...');
-
-        // Create animation mixer for the VRM
-        const mixer = new THREE.AnimationMixer(vrm.scene);
-        mixerRef.current = mixer;
-
-        // Load idle animation
-        console.log('Loading idle animation...');
-        const idleClip = await loadMixamoAnimation('/animations/Idle.fbx', vrm);
-        const idleAction = mixer.clipAction(idleClip);
-        idleAction.setLoop(THREE.LoopRepeat, Infinity); // Loop idle continuously
-        idleActionRef.current = idleAction;
-        console.log(`  ✅ Idle loaded: duration=${idleClip.duration.toFixed(3)}s, tracks=${idleClip.tracks.length}`);
-
-        // Load greeting animation
-        console.log('Loading greeting animation...');
-        const greetingClip = await loadMixamoAnimation('/animations/Standing Greeting.fbx', vrm);
-        const greetingAction = mixer.clipAction(greetingClip);
-        greetingAction.setLoop(THREE.LoopOnce, 1);
-        greetingAction.clampWhenFinished = true; // Hold last frame to avoid T-pose
-        greetingActionRef.current = greetingAction;
-        console.log(`  ✅ Greeting loaded: duration=${greetingClip.duration.toFixed(3)}s, tracks=${greetingClip.tracks.length}`);
-
-        // Load wave hip hop dance animation
-        console.log('Loading wave hip hop dance animation...');
-        const waveHipHopClip = await loadMixamoAnimation('/animations/Wave Hip Hop Dance.fbx', vrm);
-        const waveHipHopAction = mixer.clipAction(waveHipHopClip);
-        waveHipHopAction.setLoop(THREE.LoopOnce, 1);
-        waveHipHopAction.clampWhenFinished = true; // Hold last frame to avoid T-pose
-        waveHipHopAction.timeScale = 0.7; // Slow down to 70% speed
-        waveHipHopActionRef.current = waveHipHopAction;
-        console.log(`  ✅ Wave Hip Hop loaded: duration=${waveHipHopClip.duration.toFixed(3)}s (slowed to ${(waveHipHopClip.duration / 0.7).toFixed(3)}s), tracks=${waveHipHopClip.tracks.length}`);
-
-        // Load northern soul spin animation
-        console.log('Loading northern soul spin animation...');
-        const northernSoulSpinClip = await loadMixamoAnimation('/animations/Northern Soul Spin.fbx', vrm);
-        const northernSoulSpinAction = mixer.clipAction(northernSoulSpinClip);
-        northernSoulSpinAction.setLoop(THREE.LoopOnce, 1);
-        northernSoulSpinAction.clampWhenFinished = true; // Hold last frame to avoid T-pose
-        northernSoulSpinAction.timeScale = 0.7; // Slow down to 70% speed
-        northernSoulSpinActionRef.current = northernSoulSpinAction;
-        console.log(`  ✅ Northern Soul Spin loaded: duration=${northernSoulSpinClip.duration.toFixed(3)}s (slowed to ${(northernSoulSpinClip.duration / 0.7).toFixed(3)}s), tracks=${northernSoulSpinClip.tracks.length}`);
-
-        console.log('All animations loaded successfully');
-
-        // Set up animation finished listener
-        mixer.addEventListener('finished', () => {
-          const nextAnimation = selectNextAnimation();
-          playAnimation(nextAnimation, 0.5); // Longer fade for smoother transition
-        });
-
-        // Start with idle animation and show model
-        playAnimation('idle', 0);
-
-        // Show model now that idle animation is playing
-        if (vrmRef.current) {
-          vrmRef.current.scene.visible = true;
-          console.log('✨ Model visible with idle animation');
+        // Captures and recorded visemes follow the first avatar
+        if (frame && member === primary) {
+          capture.captureFrame(deltaTime * 1000, primarySource, frame.frequencyData, frame.speaking, frame.inputData);
+          recorder.logVisemes(frame.visemes);
         }
 
-      } catch (error) {
-        console.error('Error loading animations:', error);
-      }
-    };
-
-    // Animation loop
-    const animate = () => {
-      requestAnimationFrame(animate);
-
-      const deltaTime = clockRef.current.getDelta();
-
-      // Update animation mixer
-      if (mixerRef.current) {
-        mixerRef.current.update(deltaTime);
+        const fullBodyClip = member.getAnimationController()?.getState().fullBody;
+        if (fullBodyClip && getAnimation(fullBodyClip)?.category === 'dance') dancing = true;
       }
 
-      // Update VRM if loaded
-      if (vrmRef.current && vrmRef.current.expressionManager) {
-        // Get audio frequency data from ElevenLabs
-        const frequencyData = conversation?.getOutputByteFrequencyData();
-
-        // Analyze frequency data to get viseme
-        const rawViseme = frequencyToViseme(frequencyData);
-
-        // Smooth the viseme transitions
-        const smoothedViseme = visemeSmootherRef.current.add(rawViseme.viseme, rawViseme.intensity);
-
-        // Update volume display
-        setVolume(rawViseme.intensity * 100);
-
-        // Update blinking based on audio intensity
-        const blinkValue = blinkControllerRef.current.update(smoothedViseme.intensity);
-
-        // Reset all visemes first
-        const allVisemes = ['aa', 'ee', 'ih', 'oh', 'ou'];
-        allVisemes.forEach(v => {
-          vrmRef.current?.expressionManager?.setValue(v, 0);
-        });
-
-        // Apply current viseme
-        if (smoothedViseme.viseme !== 'neutral' && smoothedViseme.intensity > 0.1) {
-          vrmRef.current.expressionManager.setValue(
-            smoothedViseme.viseme,
-            smoothedViseme.intensity
-          );
-        }
-
-        // Apply blink expression
-        if (blinkValue > 0) {
-          vrmRef.current.expressionManager.setValue('blink', blinkValue);
-        }
-
-        vrmRef.current.update(deltaTime);
-      }
+      // Widen the shot while a dance is playing, then move the camera towards the shot
+      cameraDirector.setWide(dancing);
+      cameraDirector.update(deltaTime * 1000);
 
       // Update controls
       controls.update();
 
       renderer.render(scene, camera);
+
+      // Idle frames are throttled on purpose, so only full-rate frames say anything about render cost
+      if (intervalMs !== null && !scheduler.isIdle()) {
+        quality.update(intervalMs);
+      }
+      scheduler.setIdle(isSceneIdle(Boolean(replaySource)));
+
+      const stats = statsRef.current && renderStats.update(intervalMs, performance.now() - frameStart, quality.getBudgetMs(), renderer.info);
+      if (stats && statsRef.current) {
+        statsRef.current.textContent = [
+          `${stats.fps.toFixed(0)} fps${scheduler.isIdle() ? ' (idle)' : ''}`,
+          `frame ${stats.frameMs.toFixed(1)} / ${stats.budgetMs.toFixed(1)} ms (${((stats.frameMs / stats.budgetMs) * 100).toFixed(0)}%)`,
+          `${stats.drawCalls} draw calls, ${stats.triangles.toLocaleString()} triangles`,
+          `pixel ratio ${quality.getPixelRatio()}${antialias ? ', antialiased' : ''}`,
+        ].join('\n');
+      }
     };
 
-    animate();
+    // Pauses while the page is hidden; the clock skips the hidden time on return
+    const scheduler = new RenderScheduler(animate, () => clockRef.current.getDelta());
+    scheduler.start();
 
     // Handle window resize
     const handleResize = () => {
@@ -358,74 +226,141 @@ export function VRMScene({ conversation, animationTrigger }: VRMSceneProps) {
 
     window.addEventListener('resize', handleResize);
 
-    // Cleanup
+    // Track the pointer for pointer gaze mode
+    const canvas = renderer.domElement;
+    const handlePointerMove = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      // Replaying avatars only follow the capture
+      cast.getMembers().forEach(member => {
+        if (!member.isReplaying()) member.setPointer(pointer);
+      });
+    };
+    const handlePointerLeave = () => {
+      cast.getMembers().forEach(member => {
+        if (!member.isReplaying()) member.setPointer(null);
+      });
+    };
+    const handleInteraction = () => {
+      lastInteractionMs = performance.now();
+    };
+
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerleave', handlePointerLeave);
+    canvas.addEventListener('pointermove', handleInteraction);
+    canvas.addEventListener('pointerdown', handleInteraction);
+    canvas.addEventListener('wheel', handleInteraction, { passive: true });
+
+    // Cleanup (the avatars dispose their own models)
     return () => {
       window.removeEventListener('resize', handleResize);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerleave', handlePointerLeave);
+      canvas.removeEventListener('pointermove', handleInteraction);
+      canvas.removeEventListener('pointerdown', handleInteraction);
+      canvas.removeEventListener('wheel', handleInteraction);
+      unsubscribeCast();
+      scheduler.dispose();
+      cameraDirector.dispose();
+      cameraDirectorRef.current = null;
+      sceneEnvironment.dispose();
+      sceneEnvironmentRef.current = null;
       controls.dispose();
       renderer.dispose();
-
-      if (vrmRef.current) {
-        VRMUtils.deepDispose(vrmRef.current.scene);
-      }
+      scene.remove(cast.root);
     };
-  }, []); // Empty dependency array - only run once on mount
+  }, [cast, recorder, capture]); // Stable for the component's lifetime, so this runs once on mount
 
-  // Handle external animation triggers
+  // Apply environment changes (backgrounds may take a moment to load)
   useEffect(() => {
-    if (!animationTrigger || !playAnimationRef.current) return;
-
-    console.log('🎮 Animation trigger received:', animationTrigger);
-
-    // Map animation names to animation types
-    const animationMap: Record<string, 'idle' | 'greeting' | 'waveHipHop' | 'northernSoulSpin'> = {
-      'greeting': 'greeting',
-      'idle': 'idle',
-      'hiphopdance': 'waveHipHop',
-      'wavehiphopdance': 'waveHipHop',
-      'northernsoulspin': 'northernSoulSpin',
-      'spin': 'northernSoulSpin',
-    };
+    sceneEnvironmentRef.current?.apply(environment)
+      .catch(error => console.error('❌ Failed to apply environment:', error));
+  }, [environment]);
+
+  // Handle external camera shot changes
+  useEffect(() => {
+    if (!cameraTrigger || !cameraDirectorRef.current) return;
+    if (cast.getPrimary()?.isReplaying()) {
+      console.log('🎞️ Replaying, ignoring camera trigger');
+      return;
+    }
 
-    const animationType = animationMap[animationTrigger.animation.toLowerCase()];
+    cameraDirectorRef.current.setShot(cameraTrigger.shot, { cut: cameraTrigger.cut });
+    const cameraEvent = { shot: cameraTrigger.shot, cut: cameraTrigger.cut ?? false };
+    recorder.logEvent('camera', cameraEvent);
+    capture.logEvent('camera', cameraEvent);
+  }, [cast, recorder, capture, cameraTrigger]);
 
-    if (animationType) {
-      playAnimationRef.current(animationType, 0.5);
-    } else {
-      console.warn(`⚠️ Unknown animation: ${animationTrigger.animation}`);
+  // Start and stop session recording
+  useEffect(() => {
+    onRecordingCompleteRef.current = onRecordingComplete;
+  }, [onRecordingComplete]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!isRecording || !canvas) return;
+
+    // Every avatar's voice goes into the recording
+    const audioStreams = cast.getMembers()
+      .map(member => member.getAudioSource()?.captureStream())
+      .filter(stream => stream !== undefined);
+
+    try {
+      recorder.start(canvas, audioStreams);
+    } catch (error) {
+      console.error('❌ Failed to start recording:', error);
+      return;
     }
-  }, [animationTrigger]);
+
+    return () => {
+      recorder.stop()
+        .then(result => onRecordingCompleteRef.current?.(result))
+        .catch(error => console.error('❌ Failed to finish recording:', error));
+    };
+  }, [cast, recorder, isRecording]);
+
+  // Start and stop session capture
+  useEffect(() => {
+    onCaptureCompleteRef.current = onCaptureComplete;
+  }, [onCaptureComplete]);
+
+  useEffect(() => {
+    if (!isCapturing) return;
+
+    // Restart the motion from a fresh seed, and note the state replays can't reset to
+    const primary = cast.getPrimary();
+    const seed = createSeed();
+    primary?.resetMotion(seed);
+    capture.start(primary?.getAudioSource(), seed);
+    if (primary) capture.logEvent('thinking', { isThinking: primary.isThinking() });
+    if (cameraDirectorRef.current) capture.logEvent('camera', { shot: cameraDirectorRef.current.getShot(), cut: true });
+
+    return () => {
+      const file = capture.stop();
+      if (file) onCaptureCompleteRef.current?.(file);
+    };
+  }, [cast, capture, isCapturing]);
 
   return (
-    <>
+    <VRMSceneContext.Provider value={sceneContext}>
       <canvas
         ref={canvasRef}
         className="fixed top-0 left-0 w-full h-full"
         style={{ touchAction: 'none' }}
       />
 
-      {/* AI speaking status indicator */}
-      {conversation && (
-        <div className="fixed top-4 right-4 bg-black/50 text-white p-4 rounded-lg backdrop-blur-sm">
-          <div className="flex items-center gap-2 mb-2">
-            <div className={`w-3 h-3 rounded-full ${conversation.isSpeaking ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
-            <span className="text-sm">
-              {conversation.isSpeaking ? 'AI Speaking' : 'AI Idle'}
-            </span>
-          </div>
-
-          {conversation.isSpeaking && (
-            <div className="space-y-1">
-              <div className="text-xs text-gray-300">Volume: {volume.toFixed(0)}</div>
-              <div className="w-32 h-2 bg-gray-700 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-gradient-to-r from-green-500 to-blue-500 transition-all duration-100"
-                  style={{ width: `${Math.min(100, volume)}%` }}
-                />
-              </div>
-            </div>
-          )}
-        </div>
+      {children ?? <VRMAvatar {...avatarProps} showHud={showHud} />}
+
+      {/* Render stats */}
+      {showStats && (
+        <div
+          ref={statsRef}
+          className="fixed bottom-4 left-4 bg-black/60 text-green-300 font-mono text-xs p-2 rounded whitespace-pre pointer-events-none"
+        />
       )}
-    </>
+    </VRMSceneContext.Provider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+import { AvatarOverlay } from '../components/avatar-overlay';
+import { resolveCameraShot } from '../utils/cameraDirector';
+import { DEFAULT_ENVIRONMENT, LIGHTING_PRESETS, LightingPreset, parseBackground } from '../utils/sceneEnvironment';
+
+/**
+ * Transparent avatar for OBS browser sources, driven from the main page in another tab.
+ *
+ * Query parameters:
+ * - model: VRM URL (defaults to the model loaded on the control page)
+ * - camera: closeUp, bust or fullBody
+ * - background: transparent (default), green, a hex color or an image/HDRI URL
+ * - lighting: studio, sunset or neon
+ * - stats: 1 to show frame rate and draw calls while setting up
+ */
+export default async function OverlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const param = (name: string) => {
+    const value = params[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const lighting = param('lighting');
+
+  return (
+    <main className="relative w-full h-screen overflow-hidden">
+      <AvatarOverlay
+        modelUrl={param('model')}
+        shot={resolveCameraShot(param('camera') ?? '')}
+        environment={{
+          ...DEFAULT_ENVIRONMENT,
+          background: parseBackground(param('background') ?? '') ?? { type: 'transparent' },
+          lighting: LIGHTING_PRESETS.includes(lighting as LightingPreset) ? lighting as LightingPreset : DEFAULT_ENVIRONMENT.lighting,
+        }}
+        showStats={param('stats') === '1'}
+      />
+    </main>
+  );
+}
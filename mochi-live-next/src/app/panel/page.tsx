@@ -0,0 +1,49 @@
+import { PanelConversation, PanelSeatConfig } from '../components/panel-conversation';
+import { getAgentConfig } from '../utils/agentConfig';
+
+// Seats when the query doesn't list more
+const MIN_SEATS = 2;
+const DEFAULT_MAX_TURNS = 6;
+
+/**
+ * Several agents side by side, taking turns on a topic the user gives them.
+ *
+ * Query parameters (comma-separated, one entry per seat):
+ * - agents: ElevenLabs agent ids (default: the configured agent in every seat).
+ *   Signed sessions need each id listed in ELEVENLABS_PANEL_AGENT_IDS.
+ * - models: VRM URLs
+ * - names: how the seats address each other
+ * - turns: replies passed on before the panel waits for a new topic
+ */
+export default async function PanelPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const list = (name: string) => {
+    const value = params[name];
+    const raw = Array.isArray(value) ? value[0] : value;
+    return (raw ?? '').split(',').map(entry => entry.trim());
+  };
+
+  const agents = list('agents').filter(Boolean);
+  const models = list('models');
+  const names = list('names');
+  const count = Math.max(MIN_SEATS, agents.length, models.filter(Boolean).length, names.filter(Boolean).length);
+  const defaultAgentId = getAgentConfig().agentId;
+
+  const seats: PanelSeatConfig[] = Array.from({ length: count }, (_, index) => ({
+    name: names[index] || `Panelist ${index + 1}`,
+    agentId: agents[index] ?? agents[0] ?? defaultAgentId,
+    modelUrl: models[index] || undefined,
+  }));
+
+  const turns = Number(list('turns')[0]);
+
+  return (
+    <main className="relative w-full h-screen overflow-hidden">
+      <PanelConversation seats={seats} maxTurns={Number.isFinite(turns) && turns > 0 ? turns : DEFAULT_MAX_TURNS} />
+    </main>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Agent connection configuration
+ *
+ * Features:
+ * - Agent id, connection type and user id come from NEXT_PUBLIC_* env vars
+ * - Public agents connect directly with the agent id
+ * - Private agents get a signed URL (websocket) or conversation token (webrtc)
+ *   from the /api/elevenlabs/session route, so the API key stays on the server
+ *
+ * Env vars (client):
+ * - NEXT_PUBLIC_ELEVENLABS_AGENT_ID         Agent to talk to
+ * - NEXT_PUBLIC_ELEVENLABS_CONNECTION_TYPE  'websocket' (default) or 'webrtc'
+ * - NEXT_PUBLIC_ELEVENLABS_AUTH             'public' (default) or 'signed'
+ * - NEXT_PUBLIC_ELEVENLABS_USER_ID          Optional id for tracking the end user
+ */
+
+export type ConnectionType = 'websocket' | 'webrtc';
+
+export type AgentAuthMode = 'public' | 'signed';
+
+export interface AgentConfig {
+  agentId: string;
+  connectionType: ConnectionType;
+  auth: AgentAuthMode;
+  userId?: string;
+}
+
+// Session options accepted by useConversation().startSession
+export type AgentSessionConfig =
+  | { agentId: string; connectionType: ConnectionType; userId?: string }
+  | { signedUrl: string; connectionType: 'websocket'; userId?: string }
+  | { conversationToken: string; connectionType: 'webrtc'; userId?: string };
+
+// Response body of the session route
+export interface SessionCredentials {
+  signedUrl?: string;
+  conversationToken?: string;
+  mock?: boolean;
+  error?: string;
+}
+
+export const SESSION_ROUTE = '/api/elevenlabs/session';
+
+const DEFAULT_AGENT_ID = 'agent_6301k6445fe3fb4b6t524awm29j6';
+
+/**
+ * Read the agent configuration. NEXT_PUBLIC_* vars are inlined at build time,
+ * so each one has to be referenced by its full name.
+ */
+export function getAgentConfig(): AgentConfig {
+  const connectionType = process.env.NEXT_PUBLIC_ELEVENLABS_CONNECTION_TYPE === 'webrtc' ? 'webrtc' : 'websocket';
+  const auth = process.env.NEXT_PUBLIC_ELEVENLABS_AUTH === 'signed' ? 'signed' : 'public';
+
+  return {
+    agentId: process.env.NEXT_PUBLIC_ELEVENLABS_AGENT_ID || DEFAULT_AGENT_ID,
+    connectionType,
+    auth,
+    userId: process.env.NEXT_PUBLIC_ELEVENLABS_USER_ID || undefined,
+  };
+}
+
+/**
+ * Build the startSession options, fetching credentials for private agents
+ */
+export async function getSessionConfig(config: AgentConfig): Promise<AgentSessionConfig> {
+  if (config.auth === 'public') {
+    return {
+      agentId: config.agentId,
+      connectionType: config.connectionType,
+      userId: config.userId,
+    };
+  }
+
+  // The route signs for its own agent unless another one is asked for, e.g. by a panel seat
+  const params = new URLSearchParams({ connectionType: config.connectionType });
+  if (config.agentId !== getAgentConfig().agentId) {
+    params.set('agentId', config.agentId);
+  }
+
+  const response = await fetch(`${SESSION_ROUTE}?${params}`, { cache: 'no-store' });
+  const credentials = await response.json() as SessionCredentials;
+  if (!response.ok) {
+    throw new Error(credentials.error ?? `Session request failed with status ${response.status}`);
+  }
+  if (credentials.mock) {
+    console.log('🧪 Using mock agent session');
+  }
+
+  if (config.connectionType === 'webrtc') {
+    if (!credentials.conversationToken) throw new Error('Session response has no conversation token');
+    return { conversationToken: credentials.conversationToken, connectionType: 'webrtc', userId: config.userId };
+  }
+
+  if (!credentials.signedUrl) throw new Error('Session response has no signed URL');
+  return { signedUrl: credentials.signedUrl, connectionType: 'websocket', userId: config.userId };
+}
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import type { VRM } from '@pixiv/three-vrm';
+import type { AnimationDefinition } from './animationRegistry';
+import { getBoneMap, loadMotion } from './motionImport';
+import { STORES, withStore } from './indexedDb';
+
+/**
+ * Cache of retargeted animation clips
+ *
+ * Parsing a motion file (FBX, BVH or VRMA) and retargeting it to the VRM skeleton is the slow part of
+ * start-up. The result only depends on the animation file and the model, so
+ * it is stored as AnimationClip JSON in IndexedDB, keyed by file + model URL
+ * plus the entry's format and bone map.
+ *
+ * Each entry remembers the ETag (or Last-Modified) both files had, checked
+ * with a HEAD request, so replacing either file reloads the clip. Servers
+ * that send neither aren't cached from. A registered bone map's bones are
+ * part of the check too, so re-registering a name with other bones reloads.
+ *
+ * The cache is only a shortcut: a read that fails or stalls counts as a miss.
+ */
+
+// Bump when retargeting changes so stale clips aren't reused
+const CACHE_VERSION = 2;
+
+interface CachedClip {
+  key: string;
+  validator: string; // ETags or modification times of the files the clip was built from
+  clip: ReturnType<typeof THREE.AnimationClip.toJSON>;
+  storedAt: number;
+}
+
+// Reads slower than this (e.g. an upgrade waiting on another tab) load from the file instead
+const READ_TIMEOUT_MS = 2000;
+
+function cacheKey(definition: AnimationDefinition, modelKey: string): string {
+  return `v${CACHE_VERSION}|${modelKey}|${definition.file}|${definition.format ?? 'auto'}|${definition.boneMap ?? 'auto'}`;
+}
+
+// One HEAD request per URL and page load; every clip shares the model's
+const fileVersions = new Map<string, Promise<string | null>>();
+
+/**
+ * The ETag or Last-Modified header of a file, or null if the server sends neither
+ */
+function getFileVersion(url: string): Promise<string | null> {
+  let version = fileVersions.get(url);
+  if (!version) {
+    version = fetch(url, { method: 'HEAD', cache: 'no-cache' })
+      .then(response => response.ok ? response.headers.get('ETag') ?? response.headers.get('Last-Modified') : null)
+      .catch(() => null);
+    fileVersions.set(url, version);
+  }
+  return version;
+}
+
+async function getValidator(definition: AnimationDefinition, modelKey: string): Promise<string | null> {
+  const [fileVersion, modelVersion] = await Promise.all([getFileVersion(definition.file), getFileVersion(modelKey)]);
+  if (!fileVersion || !modelVersion) return null;
+
+  const boneMap = definition.boneMap ? JSON.stringify(getBoneMap(definition.boneMap) ?? null) : '';
+  return `${fileVersion}|${modelVersion}|${boneMap}`;
+}
+
+/**
+ * Look up a cached clip, giving up after READ_TIMEOUT_MS
+ */
+function readCachedClip(key: string): Promise<CachedClip | undefined> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`no answer after ${READ_TIMEOUT_MS}ms`)), READ_TIMEOUT_MS);
+    withStore<CachedClip | undefined>(STORES.animationClips, 'readonly', (store) => store.get(key))
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timeout));
+  });
+}
+
+/**
+ * Load a manifest animation retargeted to the VRM, from the cache when possible.
+ *
+ * @param modelKey Stable identifier of the model (its URL), or null to skip the
+ *   cache, e.g. for object URLs of dropped files
+ * @param hipsHeight Hips height measured in rest pose (see getVrmHipsHeight)
+ */
+export async function loadAnimationClip(
+  definition: AnimationDefinition,
+  vrm: VRM,
+  modelKey: string | null,
+  hipsHeight: number
+): Promise<THREE.AnimationClip> {
+  const validator = modelKey ? await getValidator(definition, modelKey) : null;
+  const key = modelKey && validator ? cacheKey(definition, modelKey) : null;
+
+  if (key) {
+    try {
+      const cached = await readCachedClip(key);
+      if (cached?.validator === validator) {
+        const clip = THREE.AnimationClip.parse(cached.clip);
+        clip.name = definition.id;
+        return clip;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Animation cache read failed for ${definition.id}:`, error);
+    }
+  }
+
+  const clip = await loadMotion(definition.file, vrm, {
+    format: definition.format,
+    boneMap: definition.boneMap,
+    hipsHeight,
+  });
+  clip.name = definition.id;
+
+  // Replaces the entry built from older files, if any
+  if (key && validator) {
+    const entry: CachedClip = { key, validator, clip: THREE.AnimationClip.toJSON(clip), storedAt: Date.now() };
+    withStore(STORES.animationClips, 'readwrite', (store) => store.put(entry))
+      .catch(error => console.warn(`⚠️ Failed to cache ${definition.id}:`, error));
+  }
+
+  return clip;
+}
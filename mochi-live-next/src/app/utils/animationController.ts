@@ -0,0 +1,320 @@
+import * as THREE from 'three';
+import type { VRM } from '@pixiv/three-vrm';
+import { AnimationDefinition, AnimationLayer, DEFAULT_ANIMATION_ID } from './animationRegistry';
+import { LOWER_BODY_BONES, UPPER_BODY_BONES, maskClip } from './boneMasks';
+
+/**
+ * AnimationController layers retargeted clips on a single AnimationMixer
+ *
+ * Features:
+ * - Base loop: idle is split into upper-body and lower-body actions, so a
+ *   gesture can take over the upper body while the legs keep idling
+ * - Layers: full-body clips own every bone, upper-body clips only the spine,
+ *   head and arms
+ * - Priorities: a request interrupts the clips it overlaps when its priority is
+ *   higher, otherwise it waits in a queue until they finish
+ * - Mixer time: all fades and cleanups run against mixer time instead of
+ *   wall-clock timeouts, so a clip restarted mid-fade is never stopped late
+ */
+
+export type PlayResult = 'started' | 'queued' | 'ignored';
+
+export interface AnimationControllerState {
+  fullBody: string | null;
+  upperBody: string | null;
+  queue: string[];
+}
+
+interface ActiveClip {
+  definition: AnimationDefinition;
+  action: THREE.AnimationAction;
+}
+
+interface PlayRequest {
+  id: string;
+  crossfadeDuration: number;
+}
+
+interface WeightFade {
+  from: number;
+  to: number;
+  startTime: number;       // Mixer time when the fade started
+  duration: number;        // Seconds
+  stopWhenDone: boolean;   // Stop and reset the action once it reaches weight 0
+}
+
+const MAX_QUEUE_LENGTH = 4;
+
+export class AnimationController {
+  private readonly vrm: VRM;
+  private readonly mixer: THREE.AnimationMixer;
+  private readonly definitions = new Map<string, AnimationDefinition>();
+  private readonly actions = new Map<string, THREE.AnimationAction>();
+  private readonly fades = new Map<THREE.AnimationAction, WeightFade>();
+  private baseUpperAction: THREE.AnimationAction | null = null;
+  private baseLowerAction: THREE.AnimationAction | null = null;
+  private active: Record<AnimationLayer, ActiveClip | null> = { fullBody: null, upperBody: null };
+  private queue: PlayRequest[] = [];
+
+  // Crossfade used when a one-shot clip finishes and hands back to idle
+  private readonly finishCrossfade = 0.5;
+
+  constructor(vrm: VRM) {
+    this.vrm = vrm;
+    this.mixer = new THREE.AnimationMixer(vrm.scene);
+    this.mixer.addEventListener('finished', this.handleFinished);
+  }
+
+  /**
+   * Register a retargeted clip under its manifest definition.
+   * The default animation becomes the base loop; upper-body clips are masked.
+   */
+  register(definition: AnimationDefinition, clip: THREE.AnimationClip): void {
+    this.definitions.set(definition.id, definition);
+
+    if (definition.id === DEFAULT_ANIMATION_ID) {
+      this.baseUpperAction = this.createAction(maskClip(clip, this.vrm, UPPER_BODY_BONES, 'upper'), definition);
+      this.baseLowerAction = this.createAction(maskClip(clip, this.vrm, LOWER_BODY_BONES, 'lower'), definition);
+      return;
+    }
+
+    const layerClip = definition.layer === 'upperBody'
+      ? maskClip(clip, this.vrm, UPPER_BODY_BONES, 'upper')
+      : clip;
+    this.actions.set(definition.id, this.createAction(layerClip, definition));
+  }
+
+  has(id: string): boolean {
+    return id === DEFAULT_ANIMATION_ID ? this.baseUpperAction !== null : this.actions.has(id);
+  }
+
+  /**
+   * Start the base loop at full weight (call once idle is registered)
+   */
+  start(): void {
+    for (const action of [this.baseUpperAction, this.baseLowerAction]) {
+      if (!action) continue;
+      action.reset();
+      action.setEffectiveWeight(1);
+      action.play();
+    }
+  }
+
+  /**
+   * Stop every clip and restart the base loop from its first frame
+   */
+  reset(): void {
+    this.mixer.stopAllAction();
+    this.fades.clear();
+    this.queue = [];
+    this.active = { fullBody: null, upperBody: null };
+    this.mixer.setTime(0);
+    this.start();
+  }
+
+  /**
+   * Request a clip. Requesting the default animation cancels everything else.
+   */
+  play(id: string, crossfadeDuration: number = 0.5): PlayResult {
+    if (id === DEFAULT_ANIMATION_ID) {
+      console.log('🎬 Returning to idle');
+      this.queue = [];
+      this.releaseLayer('fullBody', crossfadeDuration);
+      this.releaseLayer('upperBody', crossfadeDuration);
+      this.syncBaseWeights(crossfadeDuration);
+      return 'started';
+    }
+
+    const definition = this.definitions.get(id);
+    if (!definition || !this.actions.has(id)) {
+      console.warn(`⚠️ Animation not loaded: ${id}`);
+      return 'ignored';
+    }
+
+    const blocked = this.getActiveClips().some(clip => clip.definition.priority >= definition.priority);
+
+    if (blocked) {
+      this.enqueue({ id, crossfadeDuration });
+      return 'queued';
+    }
+
+    this.startClip(definition, crossfadeDuration);
+    return 'started';
+  }
+
+  /**
+   * Advance fades and the mixer. Call this every frame instead of mixer.update.
+   */
+  update(deltaTime: number): void {
+    this.updateFades(this.mixer.time + deltaTime * this.mixer.timeScale);
+    this.mixer.update(deltaTime);
+  }
+
+  /**
+   * Current weights of the base loop halves, 0 while a clip owns those bones
+   */
+  getBaseWeights(): { upper: number; lower: number } {
+    return {
+      upper: this.baseUpperAction?.getEffectiveWeight() ?? 0,
+      lower: this.baseLowerAction?.getEffectiveWeight() ?? 0,
+    };
+  }
+
+  getState(): AnimationControllerState {
+    return {
+      fullBody: this.active.fullBody?.definition.id ?? null,
+      upperBody: this.active.upperBody?.definition.id ?? null,
+      queue: this.queue.map(request => request.id),
+    };
+  }
+
+  dispose(): void {
+    this.mixer.removeEventListener('finished', this.handleFinished);
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.vrm.scene);
+    this.fades.clear();
+    this.queue = [];
+  }
+
+  /**
+   * Create a mixer action configured from its manifest entry
+   */
+  private createAction(clip: THREE.AnimationClip, definition: AnimationDefinition): THREE.AnimationAction {
+    const action = this.mixer.clipAction(clip);
+    switch (definition.loop) {
+      case 'repeat':
+        action.setLoop(THREE.LoopRepeat, Infinity);
+        break;
+      case 'pingpong':
+        action.setLoop(THREE.LoopPingPong, Infinity);
+        break;
+      case 'once':
+        action.setLoop(THREE.LoopOnce, 1);
+        break;
+    }
+    action.clampWhenFinished = definition.clampWhenFinished;
+    action.timeScale = definition.timeScale;
+    return action;
+  }
+
+  /**
+   * Active clips a new request would have to interrupt. Every clip shares the
+   * upper body, so at most one clip is active at a time on top of the base loop.
+   */
+  private getActiveClips(): ActiveClip[] {
+    return [this.active.fullBody, this.active.upperBody].filter((clip): clip is ActiveClip => clip !== null);
+  }
+
+  private enqueue(request: PlayRequest): void {
+    if (this.queue.length >= MAX_QUEUE_LENGTH) {
+      const dropped = this.queue.shift();
+      console.warn(`⚠️ Animation queue full, dropping: ${dropped?.id}`);
+    }
+    this.queue.push(request);
+    console.log(`⏳ Queued ${request.id} (queue: ${this.queue.map(r => r.id).join(', ')})`);
+  }
+
+  private startClip(definition: AnimationDefinition, crossfadeDuration: number): void {
+    const action = this.actions.get(definition.id)!;
+
+    // Interrupt whatever currently owns the bones this clip needs
+    this.releaseLayer('fullBody', crossfadeDuration);
+    this.releaseLayer('upperBody', crossfadeDuration);
+
+    console.log(`🎬 Starting ${definition.id} on ${definition.layer} (priority ${definition.priority})`);
+
+    // Restarting an action that is still fading out cancels its pending stop
+    this.fades.delete(action);
+    action.reset();
+    action.setEffectiveTimeScale(definition.timeScale);
+    action.setEffectiveWeight(0);
+    action.play();
+    this.fadeTo(action, 1, crossfadeDuration);
+
+    this.active[definition.layer] = { definition, action };
+    this.syncBaseWeights(crossfadeDuration);
+  }
+
+  /**
+   * Fade out and stop the clip on a layer, if any
+   */
+  private releaseLayer(layer: AnimationLayer, crossfadeDuration: number): void {
+    const clip = this.active[layer];
+    if (!clip) return;
+
+    this.active[layer] = null;
+    this.fadeTo(clip.action, 0, crossfadeDuration, true);
+  }
+
+  /**
+   * Fade the base loop halves in or out depending on which layers are in use
+   */
+  private syncBaseWeights(crossfadeDuration: number): void {
+    const upperTarget = this.active.fullBody || this.active.upperBody ? 0 : 1;
+    const lowerTarget = this.active.fullBody ? 0 : 1;
+
+    if (this.baseUpperAction) this.fadeTo(this.baseUpperAction, upperTarget, crossfadeDuration);
+    if (this.baseLowerAction) this.fadeTo(this.baseLowerAction, lowerTarget, crossfadeDuration);
+  }
+
+  private fadeTo(action: THREE.AnimationAction, to: number, duration: number, stopWhenDone: boolean = false): void {
+    const existing = this.fades.get(action);
+    if (existing && existing.to === to) {
+      existing.stopWhenDone = stopWhenDone;
+      return;
+    }
+    if (!existing && action.weight === to) return;
+
+    this.fades.set(action, {
+      from: action.weight,
+      to,
+      startTime: this.mixer.time,
+      duration,
+      stopWhenDone,
+    });
+  }
+
+  private updateFades(time: number): void {
+    this.fades.forEach((fade, action) => {
+      const progress = fade.duration > 0 ? Math.min(1, (time - fade.startTime) / fade.duration) : 1;
+      action.setEffectiveWeight(fade.from + (fade.to - fade.from) * progress);
+
+      if (progress >= 1) {
+        this.fades.delete(action);
+        if (fade.stopWhenDone && fade.to === 0) {
+          action.stop();
+        }
+      }
+    });
+  }
+
+  private handleFinished = (event: { action: THREE.AnimationAction }) => {
+    const layer = (Object.keys(this.active) as AnimationLayer[])
+      .find(key => this.active[key]?.action === event.action);
+    if (!layer) return;
+
+    console.log(`✅ Finished ${this.active[layer]?.definition.id}`);
+    this.releaseLayer(layer, this.finishCrossfade);
+    this.drainQueue();
+    this.syncBaseWeights(this.finishCrossfade);
+  };
+
+  /**
+   * Start queued requests whose bones are free, in order
+   */
+  private drainQueue(): void {
+    const pending = this.queue;
+    this.queue = [];
+
+    for (const request of pending) {
+      const definition = this.definitions.get(request.id);
+      if (!definition) continue;
+
+      if (this.getActiveClips().length === 0) {
+        this.startClip(definition, request.crossfadeDuration);
+      } else {
+        this.queue.push(request);
+      }
+    }
+  }
+}
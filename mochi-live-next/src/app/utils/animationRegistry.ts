@@ -0,0 +1,336 @@
+import type { MotionFormat } from './motionImport';
+
+/**
+ * Animation registry for the VRM avatar
+ *
+ * Every clip the avatar can play is described here as data. `VRMScene` loads
+ * whatever is listed in ANIMATION_MANIFEST, and the `playAnimation` client tool
+ * resolves the agent's requested name against the same entries, so adding a
+ * new clip only means adding a new entry below.
+ */
+
+export type AnimationCategory = 'idle' | 'greeting' | 'dance' | 'gesture' | 'emote';
+
+export type AnimationLoopMode = 'repeat' | 'once' | 'pingpong';
+
+/**
+ * Which bones a clip drives. Upper-body clips play on top of the idle loop,
+ * which keeps driving the hips and legs.
+ */
+export type AnimationLayer = 'fullBody' | 'upperBody';
+
+export interface AnimationDefinition {
+  id: string;                  // Stable identifier used in code and logs
+  file: string;                // Path under /public
+  loop: AnimationLoopMode;
+  timeScale: number;           // Playback speed multiplier (1 = original speed)
+  clampWhenFinished: boolean;  // Hold last frame to avoid T-pose
+  aliases: string[];           // Extra names the agent may use for this clip
+  category: AnimationCategory;
+  layer: AnimationLayer;
+  priority: number;            // Higher priority clips interrupt lower ones, others queue
+  description?: string;        // Shown to the agent when listing available clips
+  format?: MotionFormat;       // Detected from the file extension when omitted
+  boneMap?: string;            // Registered bone map name (see motionImport); auto-detected when omitted
+}
+
+export const DEFAULT_ANIMATION_ID = 'idle';
+
+const GESTURES_DIR = '/animations/Gestures Pack Basic';
+
+export const ANIMATION_MANIFEST: AnimationDefinition[] = [
+  {
+    id: 'idle',
+    file: '/animations/Idle.fbx',
+    loop: 'repeat',
+    timeScale: 1,
+    clampWhenFinished: false,
+    aliases: [],
+    category: 'idle',
+    layer: 'fullBody',
+    priority: 0,
+  },
+  {
+    id: 'greeting',
+    file: '/animations/Standing Greeting.fbx',
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['standinggreeting', 'hello', 'hi'],
+    category: 'greeting',
+    layer: 'fullBody',
+    priority: 2,
+    description: 'Friendly standing greeting',
+  },
+  {
+    id: 'waveHipHop',
+    file: '/animations/Wave Hip Hop Dance.fbx',
+    loop: 'once',
+    timeScale: 0.7, // Slow down to 70% speed
+    clampWhenFinished: true,
+    aliases: ['hiphopdance', 'wavehiphopdance', 'dance'],
+    category: 'dance',
+    layer: 'fullBody',
+    priority: 3,
+    description: 'Wave hip hop dance',
+  },
+  {
+    id: 'northernSoulSpin',
+    file: '/animations/Northern Soul Spin.fbx',
+    loop: 'once',
+    timeScale: 0.7, // Slow down to 70% speed
+    clampWhenFinished: true,
+    aliases: ['spin'],
+    category: 'dance',
+    layer: 'fullBody',
+    priority: 3,
+    description: 'Northern soul spin',
+  },
+  {
+    id: 'excited',
+    file: '/animations/Excited.fbx',
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['celebrate', 'yay'],
+    category: 'emote',
+    layer: 'fullBody',
+    priority: 2,
+    description: 'Excited celebration',
+  },
+  {
+    id: 'shrug',
+    file: '/animations/shrug.fbx',
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['idontknow'],
+    category: 'emote',
+    layer: 'fullBody',
+    priority: 2,
+    description: 'Shrug shoulders',
+  },
+  {
+    id: 'acknowledging',
+    file: `${GESTURES_DIR}/acknowledging.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['acknowledge'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Acknowledging gesture',
+  },
+  {
+    id: 'angryGesture',
+    file: `${GESTURES_DIR}/angry gesture.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['angry'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Angry gesture',
+  },
+  {
+    id: 'annoyedHeadShake',
+    file: `${GESTURES_DIR}/annoyed head shake.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['annoyed'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Annoyed head shake',
+  },
+  {
+    id: 'beingCocky',
+    file: `${GESTURES_DIR}/being cocky.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['cocky'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Being cocky',
+  },
+  {
+    id: 'dismissingGesture',
+    file: `${GESTURES_DIR}/dismissing gesture.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['dismiss'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Dismissive wave of the hand',
+  },
+  {
+    id: 'happyHandGesture',
+    file: `${GESTURES_DIR}/happy hand gesture.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['happy'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Happy hand gesture',
+  },
+  {
+    id: 'hardHeadNod',
+    file: `${GESTURES_DIR}/hard head nod.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: [],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Firm head nod',
+  },
+  {
+    id: 'headNodYes',
+    file: `${GESTURES_DIR}/head nod yes.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['nod', 'yes'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Nod yes',
+  },
+  {
+    id: 'lengthyHeadNod',
+    file: `${GESTURES_DIR}/lengthy head nod.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: [],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Long head nod',
+  },
+  {
+    id: 'lookAwayGesture',
+    file: `${GESTURES_DIR}/look away gesture.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['lookaway'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Look away',
+  },
+  {
+    id: 'relievedSigh',
+    file: `${GESTURES_DIR}/relieved sigh.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['sigh', 'relieved'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Relieved sigh',
+  },
+  {
+    id: 'sarcasticHeadNod',
+    file: `${GESTURES_DIR}/sarcastic head nod.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['sarcastic'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Sarcastic head nod',
+  },
+  {
+    id: 'shakingHeadNo',
+    file: `${GESTURES_DIR}/shaking head no.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['headshake', 'no'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Shake head no',
+  },
+  {
+    id: 'thoughtfulHeadShake',
+    file: `${GESTURES_DIR}/thoughtful head shake.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: ['thoughtful', 'thinking'],
+    category: 'gesture',
+    layer: 'upperBody',
+    priority: 1,
+    description: 'Thoughtful head shake',
+  },
+  {
+    id: 'weightShift',
+    file: `${GESTURES_DIR}/weight shift.fbx`,
+    loop: 'once',
+    timeScale: 1,
+    clampWhenFinished: true,
+    aliases: [],
+    category: 'gesture',
+    layer: 'fullBody', // Moves the hips and legs, so it can't be masked to the upper body
+    priority: 1,
+    description: 'Shift weight between feet',
+  },
+];
+
+/**
+ * Normalize a name for lookup: lowercase, strip spaces, dashes and underscores
+ * ("Wave Hip Hop Dance", "wave_hip_hop_dance" and "waveHipHopDance" all match)
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+const lookup = new Map<string, AnimationDefinition>();
+
+for (const definition of ANIMATION_MANIFEST) {
+  const fileName = definition.file.split('/').pop()?.replace(/\.[^.]+$/, '') ?? '';
+  for (const name of [definition.id, fileName, ...definition.aliases]) {
+    const key = normalizeName(name);
+    if (key && !lookup.has(key)) {
+      lookup.set(key, definition);
+    }
+  }
+}
+
+/**
+ * Resolve an id, alias or file name to its animation definition
+ */
+export function resolveAnimation(name: string): AnimationDefinition | undefined {
+  return lookup.get(normalizeName(name));
+}
+
+/**
+ * Get an animation definition by its exact id
+ */
+export function getAnimation(id: string): AnimationDefinition | undefined {
+  return ANIMATION_MANIFEST.find(definition => definition.id === id);
+}
+
+/**
+ * List animation ids, optionally filtered by category
+ */
+export function listAnimationIds(category?: AnimationCategory): string[] {
+  return ANIMATION_MANIFEST
+    .filter(definition => !category || definition.category === category)
+    .map(definition => definition.id);
+}
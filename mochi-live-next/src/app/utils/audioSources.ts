@@ -0,0 +1,440 @@
+/**
+ * Audio sources that can drive the avatar
+ *
+ * VRMScene only needs to know whether the avatar is speaking and what the
+ * speech spectrum looks like each frame. AvatarAudioSource captures exactly
+ * that, so lip sync, blinking and calibration work the same whether the audio
+ * comes from ElevenLabs, an <audio> element, the local microphone or a PCM
+ * stream over WebSocket.
+ */
+
+import { DEFAULT_SAMPLE_RATE } from './frequencyToViseme';
+import type { ConnectionType } from './agentConfig';
+
+export type AudioSourceKind = 'elevenlabs' | 'media' | 'microphone' | 'websocket' | 'replay' | 'broadcast';
+
+export interface AvatarAudioSource {
+  readonly kind: AudioSourceKind;
+  // Whether the avatar should be talking right now
+  isSpeaking(): boolean;
+  // Byte frequency data (0-255 per bin) of the audio the avatar speaks
+  getOutputByteFrequencyData(): Uint8Array | undefined;
+  // Sample rate of the context the frequency data comes from
+  getSampleRate(): number | undefined;
+  // FFT size of the analyser (defaults to twice the bin count)
+  getFftSize(): number | undefined;
+  // The audio the avatar speaks as a stream, for recording (undefined if unavailable)
+  captureStream(): MediaStream | undefined;
+  // Byte frequency data of the user's voice, for listening behavior (sources with a conversation partner only)
+  getInputByteFrequencyData?(): Uint8Array | undefined;
+  // Release audio resources
+  dispose(): void;
+}
+
+/**
+ * Parse the sample rate out of an ElevenLabs audio format such as "pcm_16000"
+ */
+export function parseSampleRate(format: string): number | undefined {
+  const sampleRate = Number(format.split('_')[1]);
+  return Number.isFinite(sampleRate) && sampleRate > 0 ? sampleRate : undefined;
+}
+
+/**
+ * Schedules chunks of 16-bit PCM back to back on an AudioContext
+ */
+class PcmScheduler {
+  private readonly context: AudioContext;
+  private readonly destination: AudioNode;
+  private playhead: number = 0; // Context time where the next chunk starts
+  private readonly pending = new Set<AudioBufferSourceNode>(); // Scheduled or playing chunks
+
+  // Small jitter buffer so chunks arriving a little late don't click
+  private readonly bufferAheadSeconds = 0.1;
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.destination = destination;
+  }
+
+  /**
+   * Whether scheduled audio is still playing
+   */
+  isPlaying(): boolean {
+    return this.context.currentTime < this.playhead;
+  }
+
+  schedule(pcm: Int16Array, sampleRate: number): void {
+    if (pcm.length === 0) return;
+
+    const buffer = this.context.createBuffer(1, pcm.length, sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) {
+      channel[i] = pcm[i] / 32768;
+    }
+
+    const node = this.context.createBufferSource();
+    node.buffer = buffer;
+    node.connect(this.destination);
+
+    // Start right away after a gap, otherwise queue seamlessly after the last chunk
+    const startAt = Math.max(this.playhead, this.context.currentTime + this.bufferAheadSeconds);
+    node.start(startAt);
+    this.playhead = startAt + buffer.duration;
+
+    this.pending.add(node);
+    node.onended = () => this.pending.delete(node);
+  }
+
+  /**
+   * Drop everything scheduled, so the next chunk starts right away
+   */
+  flush(): void {
+    this.pending.forEach(node => {
+      node.onended = null;
+      node.stop();
+      node.disconnect();
+    });
+    this.pending.clear();
+    this.playhead = 0;
+  }
+}
+
+/**
+ * The parts of the ElevenLabs useConversation hook the avatar relies on
+ */
+export interface ElevenLabsConversationLike {
+  isSpeaking: boolean;
+  getOutputByteFrequencyData: () => Uint8Array | undefined;
+  getInputByteFrequencyData: () => Uint8Array | undefined;
+}
+
+/**
+ * Wraps the ElevenLabs conversation hook. The hook returns a new object every
+ * render, so the source stays stable and the latest hook value is attached.
+ *
+ * The SDK plays the agent's audio itself and doesn't expose it as a stream, so
+ * for recording the raw PCM chunks from onAudio are replayed (silently) into a
+ * MediaStream of our own. onAudio only fires on websocket connections, so
+ * recordings of WebRTC sessions have no agent audio.
+ */
+export class ElevenLabsAudioSource implements AvatarAudioSource {
+  readonly kind = 'elevenlabs';
+  private readonly connectionType: ConnectionType;
+  private conversation: ElevenLabsConversationLike | null = null;
+  private sampleRate: number | undefined;
+  private isPcm: boolean = false;
+
+  // Created on the first captureStream() call
+  private capture: { context: AudioContext; destination: MediaStreamAudioDestinationNode; scheduler: PcmScheduler } | null = null;
+
+  constructor(connectionType: ConnectionType = 'websocket') {
+    this.connectionType = connectionType;
+  }
+
+  attach(conversation: ElevenLabsConversationLike): void {
+    this.conversation = conversation;
+  }
+
+  /**
+   * Set from the agent's output audio format (e.g. "pcm_16000") once the session reports it
+   */
+  setOutputFormat(format: string): void {
+    this.sampleRate = parseSampleRate(format);
+    this.isPcm = format.startsWith('pcm_');
+  }
+
+  /**
+   * Feed a base64 audio chunk from the onAudio callback (websocket connections only)
+   */
+  pushAudio(base64: string): void {
+    if (!this.capture || !this.isPcm || !this.sampleRate) return;
+
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    this.capture.scheduler.schedule(new Int16Array(bytes.buffer, 0, bytes.length >> 1), this.sampleRate);
+  }
+
+  /**
+   * The user interrupted the agent: drop the rest of the reply it had sent,
+   * as the SDK does with its own playback (onInterruption callback)
+   */
+  interrupt(): void {
+    this.capture?.scheduler.flush();
+  }
+
+  /**
+   * Whether captureStream() will carry the agent's voice
+   */
+  hasRecordableAudio(): boolean {
+    return this.connectionType === 'websocket';
+  }
+
+  isSpeaking(): boolean {
+    return this.conversation?.isSpeaking ?? false;
+  }
+
+  getOutputByteFrequencyData(): Uint8Array | undefined {
+    return this.conversation?.getOutputByteFrequencyData();
+  }
+
+  getInputByteFrequencyData(): Uint8Array | undefined {
+    return this.conversation?.getInputByteFrequencyData();
+  }
+
+  getSampleRate(): number | undefined {
+    return this.sampleRate;
+  }
+
+  getFftSize(): number | undefined {
+    return undefined;
+  }
+
+  captureStream(): MediaStream | undefined {
+    if (!this.hasRecordableAudio()) {
+      console.warn('⚠️ WebRTC sessions don\'t expose the agent\'s audio, so the recording will be silent');
+    }
+    if (!this.capture) {
+      const context = new AudioContext();
+      const destination = context.createMediaStreamDestination();
+      this.capture = { context, destination, scheduler: new PcmScheduler(context, destination) };
+    }
+    void this.capture.context.resume();
+    return this.capture.destination.stream;
+  }
+
+  dispose(): void {
+    this.conversation = null;
+    void this.capture?.context.close();
+    this.capture = null;
+  }
+}
+
+/**
+ * Shared plumbing for sources analysed with a local Web Audio AnalyserNode.
+ * Speaking is detected from the level with a short hangover, so the avatar
+ * doesn't stop talking on every gap between words.
+ */
+abstract class AnalyserAudioSource implements AvatarAudioSource {
+  abstract readonly kind: AudioSourceKind;
+  protected readonly context: AudioContext;
+  protected readonly analyser: AnalyserNode;
+  private readonly frequencyData: Uint8Array<ArrayBuffer>;
+  private lastVoiceTime: number = -Infinity;
+  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+
+  // Voice activity configuration
+  private readonly speakingThreshold = 12; // Average amplitude (0-255)
+  private readonly hangoverMs = 300;
+
+  constructor(context: AudioContext = new AudioContext()) {
+    this.context = context;
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.analyser.smoothingTimeConstant = 0.8;
+    this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+  }
+
+  isSpeaking(): boolean {
+    const data = this.getOutputByteFrequencyData();
+    if (!data) return false;
+
+    let total = 0;
+    for (let i = 0; i < data.length; i++) total += data[i];
+
+    const now = performance.now();
+    if (total / data.length >= this.speakingThreshold) {
+      this.lastVoiceTime = now;
+    }
+    return now - this.lastVoiceTime < this.hangoverMs;
+  }
+
+  getOutputByteFrequencyData(): Uint8Array | undefined {
+    if (this.context.state !== 'running') return undefined;
+    this.analyser.getByteFrequencyData(this.frequencyData);
+    return this.frequencyData;
+  }
+
+  getSampleRate(): number | undefined {
+    return this.context.sampleRate;
+  }
+
+  getFftSize(): number | undefined {
+    return this.analyser.fftSize;
+  }
+
+  captureStream(): MediaStream | undefined {
+    if (!this.recordingDestination) {
+      this.recordingDestination = this.context.createMediaStreamDestination();
+      this.analyser.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
+  }
+
+  dispose(): void {
+    this.analyser.disconnect();
+    void this.context.close();
+  }
+}
+
+/**
+ * Lip syncs to an <audio> or <video> element, e.g. a pre-recorded narration
+ */
+export class MediaElementAudioSource extends AnalyserAudioSource {
+  readonly kind = 'media';
+  private readonly element: HTMLMediaElement;
+  private readonly node: MediaElementAudioSourceNode;
+
+  constructor(element: HTMLMediaElement) {
+    super();
+    this.element = element;
+    this.node = this.context.createMediaElementSource(element);
+    this.node.connect(this.analyser);
+    this.analyser.connect(this.context.destination);
+
+    // Browsers start contexts suspended until a user gesture
+    element.addEventListener('play', this.resume);
+  }
+
+  /**
+   * Create a source for a local file or URL with its own audio element
+   */
+  static fromUrl(url: string): MediaElementAudioSource {
+    const element = new Audio(url);
+    element.crossOrigin = 'anonymous';
+    return new MediaElementAudioSource(element);
+  }
+
+  getElement(): HTMLMediaElement {
+    return this.element;
+  }
+
+  isSpeaking(): boolean {
+    return !this.element.paused && super.isSpeaking();
+  }
+
+  dispose(): void {
+    this.element.removeEventListener('play', this.resume);
+    this.element.pause();
+    this.node.disconnect();
+    super.dispose();
+  }
+
+  private resume = () => {
+    void this.context.resume();
+  };
+}
+
+/**
+ * Mirror mode: the avatar lip syncs to the local microphone.
+ * The mic is analysed only, never played back, to avoid feedback.
+ */
+export class MicrophoneAudioSource extends AnalyserAudioSource {
+  readonly kind = 'microphone';
+  private readonly stream: MediaStream;
+  private readonly node: MediaStreamAudioSourceNode;
+
+  private constructor(stream: MediaStream) {
+    super();
+    this.stream = stream;
+    this.node = this.context.createMediaStreamSource(stream);
+    this.node.connect(this.analyser);
+  }
+
+  static async create(deviceId?: string): Promise<MicrophoneAudioSource> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+    });
+    const source = new MicrophoneAudioSource(stream);
+    await source.context.resume();
+    return source;
+  }
+
+  dispose(): void {
+    this.node.disconnect();
+    this.stream.getTracks().forEach(track => track.stop());
+    super.dispose();
+  }
+}
+
+/**
+ * Plays a PCM stream received over WebSocket and lip syncs to it.
+ *
+ * Protocol:
+ * - Text frames are JSON control messages: { "type": "format", "sampleRate": 16000 }
+ * - Binary frames are mono 16-bit little-endian PCM at the announced sample rate;
+ *   a sample may be split across two frames
+ */
+export class WebSocketPcmAudioSource extends AnalyserAudioSource {
+  readonly kind = 'websocket';
+  private readonly socket: WebSocket;
+  private readonly output: GainNode;
+  private readonly scheduler: PcmScheduler;
+  private streamSampleRate: number;
+  private carryByte: number | null = null; // First half of a sample split across frames
+
+  constructor(url: string, options: { sampleRate?: number } = {}) {
+    super();
+    this.streamSampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    this.output = this.context.createGain();
+    this.output.connect(this.analyser);
+    this.analyser.connect(this.context.destination);
+    this.scheduler = new PcmScheduler(this.context, this.output);
+
+    this.socket = new WebSocket(url);
+    this.socket.binaryType = 'arraybuffer';
+    this.socket.addEventListener('open', this.handleOpen);
+    this.socket.addEventListener('message', this.handleMessage);
+    this.socket.addEventListener('error', this.handleError);
+  }
+
+  isSpeaking(): boolean {
+    return this.scheduler.isPlaying() && super.isSpeaking();
+  }
+
+  dispose(): void {
+    this.socket.removeEventListener('open', this.handleOpen);
+    this.socket.removeEventListener('message', this.handleMessage);
+    this.socket.removeEventListener('error', this.handleError);
+    this.socket.close();
+    this.output.disconnect();
+    super.dispose();
+  }
+
+  private handleOpen = () => {
+    console.log('🔌 PCM stream connected');
+    void this.context.resume();
+  };
+
+  private handleError = (event: Event) => {
+    console.error('🚨 PCM stream error:', event);
+  };
+
+  private handleMessage = (event: MessageEvent) => {
+    if (typeof event.data === 'string') {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === 'format' && typeof message.sampleRate === 'number') {
+          this.streamSampleRate = message.sampleRate;
+          this.carryByte = null;
+          console.log(`🔊 PCM stream format: ${message.sampleRate} Hz`);
+        }
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed PCM stream message:', error);
+      }
+      return;
+    }
+
+    // Frames needn't end on a sample boundary: carry an odd byte over to the next one
+    let bytes = new Uint8Array(event.data as ArrayBuffer);
+    if (this.carryByte !== null) {
+      const joined = new Uint8Array(bytes.length + 1);
+      joined[0] = this.carryByte;
+      joined.set(bytes, 1);
+      bytes = joined;
+      this.carryByte = null;
+    }
+    if (bytes.length % 2 === 1) {
+      this.carryByte = bytes[bytes.length - 1];
+    }
+    this.scheduler.schedule(new Int16Array(bytes.buffer, 0, bytes.length >> 1), this.streamSampleRate);
+  };
+}
@@ -0,0 +1,563 @@
+import * as THREE from 'three';
+import { VRM, VRMUtils } from '@pixiv/three-vrm';
+import type { AvatarAudioSource } from './audioSources';
+import type { CaptureEvent } from './sessionCapture';
+import { AnimationController, PlayResult } from './animationController';
+import { frequencyToViseme, VisemeSmoother, VoiceProfile } from './frequencyToViseme';
+import { VoiceCalibrator } from './voiceCalibration';
+import { BlinkController } from './blinkController';
+import { TranscriptLipSync } from './transcriptLipSync';
+import { EMOTION_PRESETS, EmotionController, EmotionOptions, EmotionType } from './emotionController';
+import { GazeController, GazeDirection, GazeMode } from './gazeController';
+import { IdleMotionController } from './idleMotionController';
+import { ProsodyController } from './prosodyController';
+import { ListeningController } from './listeningController';
+import { createRandomStream, RandomSource } from './seededRandom';
+
+/**
+ * One avatar in a scene, with everything that brings it to life
+ *
+ * Features:
+ * - Owns the VRM and its animation, gaze, idle motion and prosody controllers,
+ *   plus its own lip sync source, blink, emotion and listening state
+ * - update() runs one frame in the order the layers depend on: animation,
+ *   idle motion, listening, gaze, then lip sync, expressions and vrm.update
+ * - Reports backchannel nods and listening-driven thinking through onEvent,
+ *   so the scene can log them for recordings and captures
+ * - resetMotion() restarts the procedural motion from a seed, so a capture
+ *   and its replays blink, glance and sway identically
+ *
+ * AvatarCast places several characters side by side and has the ones that
+ * aren't talking look at whoever is.
+ */
+
+export interface AvatarFrame {
+  frequencyData: Uint8Array | undefined;
+  speaking: boolean;
+  volume: number;                  // Raw viseme intensity, 0-100
+  visemes: Record<string, number>; // Mouth weights applied this frame
+  inputData: Uint8Array | undefined; // Microphone spectrum listening heard this frame
+}
+
+export type AvatarEventType = 'animation' | 'thinking';
+
+export interface CalibrationCallbacks {
+  onProgress?: (progress: number) => void;
+  onComplete?: (profile: VoiceProfile) => void;
+}
+
+const VISEMES = ['aa', 'ee', 'ih', 'oh', 'ou'] as const;
+
+// One random stream per controller, so each draws the same numbers whatever the others do
+const RANDOM_STREAMS = { blink: 0, lipSync: 1, listening: 2, gaze: 3, idleMotion: 4 } as const;
+
+export class AvatarCharacter {
+  // Placed by AvatarCast; the VRM hangs below it
+  readonly root = new THREE.Group();
+
+  private vrm: VRM | null = null;
+  private animationController: AnimationController | null = null;
+  private gazeController: GazeController | null = null;
+  private idleMotion: IdleMotionController | null = null;
+  private prosody: ProsodyController | null = null;
+  private visemeSmoother = new VisemeSmoother();
+  private blinkController = new BlinkController();
+  private transcriptLipSync = new TranscriptLipSync();
+  private emotionController = new EmotionController();
+  private listening = new ListeningController();
+  private motionSeed: number | null = null; // Unseeded motion draws from Math.random
+
+  private audioSource: AvatarAudioSource | null = null;
+  private voiceProfile: VoiceProfile | null = null;
+  private thinking: boolean = false;
+  private textVoice: boolean = false;   // Mouth replies from their text; the session has no audio
+  private textSpeaking: boolean = false;
+  private idleMotionAmplitude: number = 1;
+  private pointer: THREE.Vector2 | null = null;
+  private calibration: { calibrator: VoiceCalibrator; profileName: string; lastReported: number; callbacks: CalibrationCallbacks } | null = null;
+  private timeMs: number = 0; // Drives the viseme smoother; follows captured deltas during replay
+  private frameListener: ((frame: AvatarFrame) => void) | null = null;
+
+  private readonly onEvent?: (type: AvatarEventType, data: Record<string, unknown>) => void;
+
+  constructor(options: { onEvent?: (type: AvatarEventType, data: Record<string, unknown>) => void } = {}) {
+    this.onEvent = options.onEvent;
+  }
+
+  /**
+   * Show a loaded model, replacing the current one. The controller must hold
+   * at least the idle clip; the rest can be registered as they arrive.
+   */
+  setModel(vrm: VRM, controller: AnimationController): void {
+    this.clearModel();
+
+    this.vrm = vrm;
+    this.animationController = controller;
+    this.root.add(vrm.scene);
+
+    this.createModelControllers(vrm);
+
+    // Start with idle animation and show model
+    controller.start();
+    vrm.scene.visible = true;
+  }
+
+  /**
+   * Restart procedural motion from a seed: blinks, saccades, sway, weight
+   * shifts, backchannels and viseme variation, along with the clip, emotion,
+   * gaze mode and lip sync timeline. Captures start here, and their replays
+   * restart here with the captured seed.
+   */
+  resetMotion(seed: number): void {
+    this.motionSeed = seed;
+    this.timeMs = 0;
+    this.textSpeaking = false;
+    this.visemeSmoother = new VisemeSmoother();
+    this.blinkController = new BlinkController(this.createRandom('blink'));
+    this.transcriptLipSync = new TranscriptLipSync(this.createRandom('lipSync'));
+    this.emotionController = new EmotionController();
+    this.listening = new ListeningController(this.createRandom('listening'));
+    // Replays take thinking from the capture, not from the live session
+    if (this.isReplaying()) this.thinking = false;
+
+    if (this.vrm) {
+      this.gazeController?.dispose();
+      this.createModelControllers(this.vrm);
+    }
+    this.animationController?.reset();
+  }
+
+  /**
+   * Remove and dispose the current model and everything bound to its skeleton
+   */
+  clearModel(): void {
+    const vrm = this.vrm;
+    this.animationController?.dispose();
+    this.animationController = null;
+    this.gazeController?.dispose();
+    this.gazeController = null;
+    this.idleMotion = null;
+    this.prosody = null;
+    this.vrm = null;
+
+    if (vrm) {
+      this.root.remove(vrm.scene);
+      VRMUtils.deepDispose(vrm.scene);
+    }
+  }
+
+  getVrm(): VRM | null {
+    return this.vrm;
+  }
+
+  getAnimationController(): AnimationController | null {
+    return this.animationController;
+  }
+
+  /**
+   * The head bone, for other characters to look at
+   */
+  getHead(): THREE.Object3D | null {
+    return this.vrm?.humanoid?.getNormalizedBoneNode('head') ?? null;
+  }
+
+  setAudioSource(source: AvatarAudioSource | null): void {
+    this.audioSource = source;
+  }
+
+  getAudioSource(): AvatarAudioSource | null {
+    return this.audioSource;
+  }
+
+  /**
+   * Whether a session capture drives this character; live triggers are ignored meanwhile
+   */
+  isReplaying(): boolean {
+    return this.audioSource?.kind === 'replay';
+  }
+
+  /**
+   * Mouth the agent's replies from their text alone, for text-only sessions
+   */
+  setTextVoice(enabled: boolean): void {
+    this.textVoice = enabled;
+    this.textSpeaking = false;
+  }
+
+  setVoiceProfile(profile: VoiceProfile | null): void {
+    this.voiceProfile = profile;
+  }
+
+  setIdleMotionAmplitude(amplitude: number): void {
+    this.idleMotionAmplitude = amplitude;
+    this.idleMotion?.setAmplitude(amplitude);
+  }
+
+  /**
+   * Look away while thinking between turns
+   */
+  setThinking(thinking: boolean): void {
+    this.thinking = thinking;
+    this.gazeController?.setThinking(this.isThinking());
+  }
+
+  play(id: string, crossfadeDuration: number = 0.5): PlayResult | null {
+    return this.animationController?.play(id, crossfadeDuration) ?? null;
+  }
+
+  /**
+   * Feed the agent's response into the transcript lip sync timeline
+   */
+  addTranscript(text: string): void {
+    this.transcriptLipSync.addText(text);
+  }
+
+  setEmotion(emotion: EmotionType, options: EmotionOptions = {}): void {
+    this.emotionController.setEmotion(emotion, options);
+  }
+
+  setGaze(mode: GazeMode, options: { direction?: GazeDirection; durationMs?: number } = {}): boolean {
+    if (!this.gazeController) return false;
+    this.gazeController.setMode(mode, options);
+    return true;
+  }
+
+  /**
+   * Pointer position in normalized device coordinates, for pointer gaze mode
+   */
+  setPointer(pointer: THREE.Vector2 | null): void {
+    this.pointer = pointer;
+    this.gazeController?.setPointer(pointer);
+  }
+
+  /**
+   * Look at another character instead of the camera, or back at the camera with null
+   */
+  setFocus(focus: THREE.Object3D | null): void {
+    this.gazeController?.setFocus(focus);
+  }
+
+  /**
+   * Record this character's voice until enough speech has been heard
+   */
+  startCalibration(profileName: string, durationMs: number, callbacks: CalibrationCallbacks): void {
+    this.calibration = {
+      calibrator: new VoiceCalibrator({
+        sampleRate: this.audioSource?.getSampleRate(),
+        fftSize: this.audioSource?.getFftSize(),
+        durationMs,
+      }),
+      profileName,
+      lastReported: 0,
+      callbacks,
+    };
+  }
+
+  /**
+   * Called after every frame the model is shown, e.g. to update a speaking indicator
+   */
+  setFrameListener(listener: ((frame: AvatarFrame) => void) | null): void {
+    this.frameListener = listener;
+  }
+
+  isSpeaking(): boolean {
+    if (this.textVoice) return this.textSpeaking;
+    return this.audioSource?.isSpeaking() ?? false;
+  }
+
+  /**
+   * Whether anything is moving beyond idle: speech, listening or a clip
+   */
+  isActive(): boolean {
+    const state = this.animationController?.getState();
+    return this.isSpeaking()
+      || this.listening.isAttentive()
+      || Boolean(state?.fullBody || state?.upperBody || (state?.queue.length ?? 0) > 0);
+  }
+
+  /**
+   * Apply a trigger from a session capture, the same way live triggers are applied.
+   * Camera events belong to the scene and are ignored here.
+   */
+  applyCapturedEvent(event: CaptureEvent): void {
+    const data = event.data;
+    switch (event.type) {
+      case 'animation':
+        this.play(String(data.animation), 0.5);
+        break;
+      case 'transcript':
+        this.addTranscript(String(data.text));
+        break;
+      case 'emotion':
+        this.setEmotion(data.emotion as EmotionType, {
+          intensity: data.intensity as number,
+          durationMs: data.durationMs as number | undefined,
+        });
+        break;
+      case 'gaze':
+        this.setGaze(data.mode as GazeMode, {
+          direction: data.direction as GazeDirection | undefined,
+          durationMs: data.durationMs as number | undefined,
+        });
+        break;
+      case 'thinking':
+        this.gazeController?.setThinking(Boolean(data.isThinking));
+        break;
+    }
+  }
+
+  /**
+   * Run one frame. Returns what the lip sync consumed, or null before a model is shown.
+   */
+  update(deltaMs: number, camera: THREE.Camera): AvatarFrame | null {
+    const deltaTime = deltaMs / 1000;
+    this.timeMs += deltaMs;
+
+    // Update animation layers and mixer
+    if (this.animationController) {
+      this.animationController.update(deltaTime);
+
+      // Breathing and sway on top of idle, fading out while clips play
+      this.idleMotion?.update(deltaMs, this.animationController.getBaseWeights());
+    }
+
+    // Listen to the user: attentive gaze, backchannel nods, thinking once their turn ends
+    const wasAwaitingReply = this.listening.isAwaitingReply();
+    const inputData = this.audioSource?.getInputByteFrequencyData?.();
+    const backchannel = this.listening.update(deltaMs, inputData, this.isSpeaking());
+    this.gazeController?.setAttentive(this.listening.isAttentive());
+    if (this.listening.isAwaitingReply() !== wasAwaitingReply) {
+      const thinking = this.isThinking();
+      this.gazeController?.setThinking(thinking);
+      this.onEvent?.('thinking', { isThinking: thinking });
+    }
+    if (backchannel) {
+      this.playBackchannel(backchannel);
+    }
+
+    // Aim eyes, neck and head on top of the animated pose
+    this.gazeController?.update(deltaMs, camera);
+
+    const vrm = this.vrm;
+    const expressionManager = vrm?.expressionManager;
+    if (!vrm || !expressionManager) return null;
+
+    // Without audio, the reply text alone drives the mouth
+    const textVoice = this.textVoice ? this.transcriptLipSync.updateWithoutAudio(deltaMs) : null;
+    if (textVoice) this.textSpeaking = textVoice.speaking;
+
+    // Get audio frequency data from the current audio source
+    const audioSource = this.audioSource;
+    const frequencyData = audioSource?.getOutputByteFrequencyData();
+    const speaking = this.isSpeaking();
+
+    // Analyze frequency data to get viseme
+    const rawViseme = frequencyToViseme(frequencyData, {
+      sampleRate: audioSource?.getSampleRate(),
+      fftSize: audioSource?.getFftSize(),
+      profile: this.voiceProfile ?? undefined,
+    });
+
+    this.updateCalibration(frequencyData, deltaMs, speaking);
+
+    // Smooth the viseme transitions
+    const smoothedViseme = this.visemeSmoother.add(rawViseme.viseme, rawViseme.intensity, this.timeMs);
+
+    // Nods, brow raises and arm beats that follow the speech rhythm
+    this.prosody?.update(
+      deltaMs,
+      {
+        intensity: rawViseme.intensity,
+        frequencyData,
+        sampleRate: audioSource?.getSampleRate(),
+        fftSize: audioSource?.getFftSize(),
+      },
+      this.animationController?.getBaseWeights().upper
+    );
+
+    // Update blinking based on audio intensity
+    const blinkValue = this.blinkController.update(smoothedViseme.intensity, deltaMs);
+
+    // Blend the agent's transcript (mouth shape) with the audio (timing/intensity)
+    const visemeWeights = textVoice?.weights ?? this.transcriptLipSync.update(deltaMs, speaking, smoothedViseme);
+
+    // Update emotion fades; emotions damp the mouth and blinks they overlap with
+    const emotionWeights = this.emotionController.update(deltaMs);
+    const mouthScale = this.emotionController.getMouthScale();
+
+    // Reset all visemes, then apply the current ones
+    VISEMES.forEach(v => expressionManager.setValue(v, 0));
+    const appliedVisemes: Record<string, number> = {};
+    if (textVoice || smoothedViseme.intensity > 0.1) {
+      VISEMES.forEach(v => {
+        const weight = visemeWeights[v];
+        if (weight) {
+          appliedVisemes[v] = weight * mouthScale;
+          expressionManager.setValue(v, appliedVisemes[v]);
+        }
+      });
+    }
+
+    // Apply emotion expressions
+    EMOTION_PRESETS.forEach(emotion => {
+      expressionManager.setValue(emotion, emotionWeights[emotion]);
+    });
+
+    // Brow raises on pitch rises, on top of the emotion
+    Object.entries(this.prosody?.getExpressionWeights() ?? {}).forEach(([name, weight]) => {
+      const base = (emotionWeights as Record<string, number>)[name] ?? 0;
+      expressionManager.setValue(name, Math.min(1, base + weight));
+    });
+
+    // Apply blink expression
+    expressionManager.setValue('blink', blinkValue * this.emotionController.getBlinkScale());
+
+    vrm.update(deltaTime);
+
+    const frame = {
+      frequencyData,
+      speaking,
+      volume: rawViseme.intensity * 100,
+      visemes: appliedVisemes,
+      inputData,
+    };
+    this.frameListener?.(frame);
+    return frame;
+  }
+
+  dispose(): void {
+    this.clearModel();
+    this.root.removeFromParent();
+  }
+
+  /**
+   * Gaze, idle motion and prosody work on the model's bones, so they are rebuilt with it
+   */
+  private createModelControllers(vrm: VRM): void {
+    // Eyes and head follow the camera by default
+    this.gazeController = new GazeController(vrm, this.createRandom('gaze'));
+    this.gazeController.setThinking(this.isThinking());
+    this.gazeController.setPointer(this.isReplaying() ? null : this.pointer);
+    this.idleMotion = new IdleMotionController(vrm, this.idleMotionAmplitude, this.createRandom('idleMotion'));
+    this.prosody = new ProsodyController(vrm);
+  }
+
+  private createRandom(stream: keyof typeof RANDOM_STREAMS): RandomSource {
+    return this.motionSeed === null ? Math.random : createRandomStream(this.motionSeed, RANDOM_STREAMS[stream]);
+  }
+
+  /**
+   * Looking away to think: told to by the session, or waiting for a reply
+   */
+  isThinking(): boolean {
+    return this.thinking || this.listening.isAwaitingReply();
+  }
+
+  /**
+   * Nod along while the user talks, but never interrupt or queue behind another clip
+   */
+  private playBackchannel(id: string): void {
+    const controller = this.animationController;
+    const state = controller?.getState();
+    if (!controller?.has(id) || !state || state.fullBody || state.upperBody || state.queue.length > 0) return;
+
+    const result = controller.play(id, 0.3);
+    this.onEvent?.('animation', { id, result, source: 'backchannel' });
+  }
+
+  /**
+   * Record frames for voice calibration while it is running
+   */
+  private updateCalibration(frequencyData: Uint8Array | undefined, deltaMs: number, speaking: boolean): void {
+    const calibration = this.calibration;
+    if (!calibration) return;
+
+    calibration.calibrator.addFrame(frequencyData, deltaMs, speaking);
+    const progress = calibration.calibrator.getProgress();
+
+    if (calibration.calibrator.isComplete()) {
+      this.calibration = null;
+      calibration.callbacks.onComplete?.(calibration.calibrator.buildProfile(calibration.profileName));
+    } else if (progress - calibration.lastReported >= 0.05) {
+      calibration.lastReported = progress;
+      calibration.callbacks.onProgress?.(progress);
+    }
+  }
+}
+
+/**
+ * The characters in a scene: seats them side by side, turned a little towards
+ * each other, and points the listeners' gaze at whoever is speaking
+ */
+export class AvatarCast {
+  readonly root = new THREE.Group();
+  private readonly members: AvatarCharacter[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  // Configuration
+  private readonly spacing = 0.8;                  // Meters between neighbouring seats
+  private readonly inwardTurn = 20 * Math.PI / 180; // Outer seats turn towards the middle
+
+  add(character: AvatarCharacter): void {
+    this.members.push(character);
+    this.root.add(character.root);
+    this.layout();
+    this.notify();
+  }
+
+  remove(character: AvatarCharacter): void {
+    const index = this.members.indexOf(character);
+    if (index === -1) return;
+    this.members.splice(index, 1);
+    this.root.remove(character.root);
+    this.layout();
+    this.notify();
+  }
+
+  getMembers(): readonly AvatarCharacter[] {
+    return this.members;
+  }
+
+  /**
+   * The first character, whose audio is recorded and captured
+   */
+  getPrimary(): AvatarCharacter | null {
+    return this.members[0] ?? null;
+  }
+
+  /**
+   * Listen for characters joining, leaving or changing models
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Call after a character's model changed
+   */
+  notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Everyone who isn't talking looks at whoever is; with nobody talking, at the camera
+   */
+  updateFocus(): void {
+    const speaker = this.members.find(member => member.isSpeaking()) ?? null;
+    const speakerHead = speaker?.getHead() ?? null;
+    for (const member of this.members) {
+      member.setFocus(member === speaker ? null : speakerHead);
+    }
+  }
+
+  private layout(): void {
+    const count = this.members.length;
+    this.members.forEach((member, index) => {
+      const x = (index - (count - 1) / 2) * this.spacing;
+      member.root.position.set(x, 0, 0);
+      // Turning about +Y swings the face towards +X, so left seats turn right and vice versa
+      member.root.rotation.y = count > 1 ? -Math.sign(x) * this.inwardTurn : 0;
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { listAnimationIds, resolveAnimation } from './animationRegistry';
+import { EMOTION_PRESETS, EmotionType, resolveEmotion } from './emotionController';
+import { GAZE_DIRECTIONS, GazeDirection, GazeMode, resolveGazeTarget } from './gazeController';
+import { CAMERA_SHOTS, CameraShot, resolveCameraShot } from './cameraDirector';
+
+/**
+ * Client tools an ElevenLabs agent calls to move its avatar
+ *
+ * Features:
+ * - playAnimation, setEmotion, setGaze and setCamera, resolving the names
+ *   agents tend to use (synonyms, casing) before anything is triggered
+ * - Unknown names are answered with the valid options, so the agent can retry
+ * - Durations arrive in seconds and are handed on in milliseconds
+ * - Parameters come from an LLM, so missing or mistyped names get the same
+ *   "Unknown …" answer, and intensities and durations are clamped
+ *
+ * The same tools serve the single-avatar page and every seat of a panel.
+ */
+
+export interface AvatarToolTargets {
+  playAnimation: (animation: string) => void;
+  setEmotion: (emotion: EmotionType, intensity: number, durationMs?: number) => void;
+  setGaze: (mode: GazeMode, direction?: GazeDirection, durationMs?: number) => void;
+  setCamera: (shot: CameraShot, cut: boolean) => void;
+}
+
+// Called with every tool call and the result handed back to the agent
+export type ToolCallListener = (name: string, parameters: Record<string, unknown>, result: string) => void;
+
+// Longest emotion or gaze hold an agent may ask for, in seconds
+const MAX_DURATION_SECONDS = 60;
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function clampIntensity(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 1;
+}
+
+/**
+ * A duration in seconds, or undefined when missing or not positive
+ */
+function clampDuration(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return undefined;
+  return Math.min(MAX_DURATION_SECONDS, value);
+}
+
+/**
+ * Build the clientTools option for useConversation
+ */
+export function createAvatarTools(targets: AvatarToolTargets, onCall?: ToolCallListener) {
+  const respond = (name: string, parameters: Record<string, unknown>, result: string) => {
+    onCall?.(name, parameters, result);
+    return result;
+  };
+
+  return {
+    playAnimation: (parameters: { animation?: unknown }) => {
+      console.log('🎭 Client tool called: playAnimation', parameters);
+
+      const name = asString(parameters.animation);
+      const definition = name === null ? undefined : resolveAnimation(name);
+      if (!definition) {
+        return respond('playAnimation', parameters, `Unknown animation "${parameters.animation}". Available animations: ${listAnimationIds().join(', ')}`);
+      }
+
+      targets.playAnimation(definition.id);
+      return respond('playAnimation', parameters, `Animation "${definition.id}" triggered successfully`);
+    },
+    setEmotion: (parameters: { emotion?: unknown; intensity?: unknown; duration?: unknown }) => {
+      console.log('🎭 Client tool called: setEmotion', parameters);
+
+      const name = asString(parameters.emotion);
+      const emotion = name === null ? undefined : resolveEmotion(name);
+      if (!emotion) {
+        return respond('setEmotion', parameters, `Unknown emotion "${parameters.emotion}". Available emotions: ${[...EMOTION_PRESETS, 'neutral'].join(', ')}`);
+      }
+
+      // Omit the duration to hold the emotion until changed
+      const durationSeconds = clampDuration(parameters.duration);
+      targets.setEmotion(emotion, clampIntensity(parameters.intensity), durationSeconds ? durationSeconds * 1000 : undefined);
+      return respond('setEmotion', parameters, `Emotion "${emotion}" set successfully`);
+    },
+    setGaze: (parameters: { target?: unknown; duration?: unknown }) => {
+      console.log('👀 Client tool called: setGaze', parameters);
+
+      const name = asString(parameters.target);
+      const gaze = name === null ? undefined : resolveGazeTarget(name);
+      if (!gaze) {
+        return respond('setGaze', parameters, `Unknown gaze target "${parameters.target}". Available targets: camera, pointer, ${GAZE_DIRECTIONS.join(', ')}`);
+      }
+
+      // Looking in a direction defaults to 3 seconds
+      const durationSeconds = clampDuration(parameters.duration) ?? (gaze.mode === 'direction' ? 3 : undefined);
+      targets.setGaze(gaze.mode, gaze.direction, durationSeconds ? durationSeconds * 1000 : undefined);
+      return respond('setGaze', parameters, `Gaze set to "${parameters.target}" successfully`);
+    },
+    setCamera: (parameters: { shot?: unknown; cut?: unknown }) => {
+      console.log('🎥 Client tool called: setCamera', parameters);
+
+      const name = asString(parameters.shot);
+      const shot = name === null ? undefined : resolveCameraShot(name);
+      if (!shot) {
+        return respond('setCamera', parameters, `Unknown shot "${parameters.shot}". Available shots: ${CAMERA_SHOTS.join(', ')}`);
+      }
+
+      // Cuts jump straight to the shot; otherwise the camera moves there smoothly
+      targets.setCamera(shot, parameters.cut === true);
+      return respond('setCamera', parameters, `Camera set to "${shot}" successfully`);
+    },
+  };
+}
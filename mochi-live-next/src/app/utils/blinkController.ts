@@ -6,13 +6,18 @@
  * - Prevents too frequent blinking (2-4 second cooldown)
  * - Smooth animation curve (quick close, slower open)
  * - Randomized timing for natural variation
+ * - Runs on the frame deltas it is given and an injectable random source,
+ *   so replays blink at the same moments
  */
 
+import type { RandomSource } from './seededRandom';
+
 type BlinkState = 'idle' | 'closing' | 'opening';
 
 export class BlinkController {
   private state: BlinkState = 'idle';
   private blinkValue: number = 0; // 0 = eyes open, 1 = eyes closed
+  private timeMs: number = 0; // Advanced by update()
   private lastBlinkTime: number = 0;
   private blinkStartTime: number = 0;
 
@@ -26,16 +31,19 @@ export class BlinkController {
   private readonly pauseThreshold = 0.15; // Audio intensity threshold for pause detection
   private readonly blinkChance = 0.3; // 30% chance to blink when conditions are met
 
-  constructor() {
-    this.lastBlinkTime = Date.now();
+  private readonly random: RandomSource;
+
+  constructor(random: RandomSource = Math.random) {
+    this.random = random;
   }
 
   /**
    * Update blink state based on audio intensity
    * Call this every frame in the animation loop
    */
-  update(audioIntensity: number): number {
-    const now = Date.now();
+  update(audioIntensity: number, deltaMs: number): number {
+    this.timeMs += deltaMs;
+    const now = this.timeMs;
     const timeSinceLastBlink = now - this.lastBlinkTime;
 
     // Update ongoing blink animation
@@ -47,10 +55,10 @@ export class BlinkController {
     // Check if we should trigger a new blink
     const cooldownPassed = timeSinceLastBlink > this.minCooldown;
     const isInPause = audioIntensity < this.pauseThreshold;
-    const shouldBlink = cooldownPassed && isInPause && Math.random() < this.blinkChance;
+    const shouldBlink = cooldownPassed && isInPause && this.random() < this.blinkChance;
 
     // Also trigger periodic blinks if cooldown exceeded (even without audio pause)
-    const forceBlink = timeSinceLastBlink > this.maxCooldown && Math.random() < 0.5;
+    const forceBlink = timeSinceLastBlink > this.maxCooldown && this.random() < 0.5;
 
     if (shouldBlink || forceBlink) {
       this.startBlink(now);
@@ -123,6 +131,6 @@ export class BlinkController {
   reset(): void {
     this.state = 'idle';
     this.blinkValue = 0;
-    this.lastBlinkTime = Date.now();
+    this.lastBlinkTime = this.timeMs;
   }
 }
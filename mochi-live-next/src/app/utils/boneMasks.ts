@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+/**
+ * Bone masks for layered animation
+ *
+ * Retargeted clips address VRM normalized bone nodes by name, so a mask is just
+ * a set of humanoid bones whose node names decide which tracks a layer keeps.
+ */
+
+const FINGER_BONES: VRMHumanBoneName[] = (['left', 'right'] as const).flatMap(side => [
+  `${side}ThumbMetacarpal`, `${side}ThumbProximal`, `${side}ThumbDistal`,
+  `${side}IndexProximal`, `${side}IndexIntermediate`, `${side}IndexDistal`,
+  `${side}MiddleProximal`, `${side}MiddleIntermediate`, `${side}MiddleDistal`,
+  `${side}RingProximal`, `${side}RingIntermediate`, `${side}RingDistal`,
+  `${side}LittleProximal`, `${side}LittleIntermediate`, `${side}LittleDistal`,
+] as VRMHumanBoneName[]);
+
+/**
+ * Spine, head and arms: everything a seated or standing gesture moves
+ */
+export const UPPER_BODY_BONES: VRMHumanBoneName[] = [
+  'spine', 'chest', 'upperChest', 'neck', 'head',
+  'leftEye', 'rightEye', 'jaw',
+  'leftShoulder', 'leftUpperArm', 'leftLowerArm', 'leftHand',
+  'rightShoulder', 'rightUpperArm', 'rightLowerArm', 'rightHand',
+  ...FINGER_BONES,
+];
+
+/**
+ * Hips and legs: what keeps the avatar standing while the upper body gestures
+ */
+export const LOWER_BODY_BONES: VRMHumanBoneName[] = [
+  'hips',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot', 'leftToes',
+  'rightUpperLeg', 'rightLowerLeg', 'rightFoot', 'rightToes',
+];
+
+/**
+ * Resolve humanoid bones to the node names used in retargeted track names
+ */
+export function getBoneNodeNames(vrm: VRM, bones: VRMHumanBoneName[]): Set<string> {
+  const names = new Set<string>();
+  for (const bone of bones) {
+    const name = vrm.humanoid?.getNormalizedBoneNode(bone)?.name;
+    if (name) names.add(name);
+  }
+  return names;
+}
+
+/**
+ * Create a copy of a clip that only keeps tracks targeting the given bones
+ */
+export function maskClip(clip: THREE.AnimationClip, vrm: VRM, bones: VRMHumanBoneName[], suffix: string): THREE.AnimationClip {
+  const nodeNames = getBoneNodeNames(vrm, bones);
+  const tracks = clip.tracks
+    .filter(track => nodeNames.has(track.name.split('.')[0]))
+    .map(track => track.clone());
+
+  return new THREE.AnimationClip(`${clip.name}:${suffix}`, clip.duration, tracks);
+}
@@ -0,0 +1,45 @@
+import * as THREE from 'three';
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+/**
+ * Procedural rotations layered on top of the animated pose
+ *
+ * Features:
+ * - BoneOffsets multiplies small Euler rotations (YXZ) onto normalized bones,
+ *   after the mixer has written the pose for the frame
+ * - getForwardSign() tells which way a model faces: VRM 1.0 models face +Z and
+ *   VRM 0.x models -Z
+ *
+ * Positive rotation about X tips a +Z-facing bone forward (a head looks down),
+ * so pitch offsets are multiplied by the forward sign. Yaw and roll read the
+ * same for both facings.
+ */
+
+/**
+ * 1 for models facing +Z (VRM 1.0), -1 for models facing -Z (VRM 0.x)
+ */
+export function getForwardSign(vrm: VRM): 1 | -1 {
+  return vrm.meta?.metaVersion === '0' ? -1 : 1;
+}
+
+export class BoneOffsets {
+  private readonly vrm: VRM;
+
+  // Scratch objects
+  private readonly _euler = new THREE.Euler(0, 0, 0, 'YXZ');
+  private readonly _offset = new THREE.Quaternion();
+
+  constructor(vrm: VRM) {
+    this.vrm = vrm;
+  }
+
+  /**
+   * Rotate a bone by an offset in its local frame; missing bones are skipped
+   */
+  rotate(boneName: VRMHumanBoneName, x: number, y: number, z: number): void {
+    const bone = this.vrm.humanoid?.getNormalizedBoneNode(boneName);
+    if (!bone) return;
+    this._euler.set(x, y, z);
+    bone.quaternion.multiply(this._offset.setFromEuler(this._euler));
+  }
+}
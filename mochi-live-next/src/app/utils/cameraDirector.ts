@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+import type { VRM } from '@pixiv/three-vrm';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+/**
+ * CameraDirector frames the avatars with named shots
+ *
+ * Features:
+ * - Shot presets (face close-up, bust, full body) computed from each VRM's
+ *   head and hips, so they fit any model size
+ * - Several avatars are framed together, widening to fit all of them
+ * - Smooth, damped moves between shots, or hard cuts
+ * - Wide framing during large-motion clips (dances), following the hips so
+ *   travelling moves stay in frame, then back to the chosen shot
+ * - User orbiting pauses the director; it eases back to the shot after a
+ *   few seconds without input
+ */
+
+export type CameraShot = 'closeUp' | 'bust' | 'fullBody';
+
+export const CAMERA_SHOTS: CameraShot[] = ['closeUp', 'bust', 'fullBody'];
+
+export const DEFAULT_CAMERA_SHOT: CameraShot = 'bust';
+
+const SHOT_ALIASES: Record<string, CameraShot> = {
+  closeup: 'closeUp',
+  close: 'closeUp',
+  face: 'closeUp',
+  bust: 'bust',
+  medium: 'bust',
+  upperbody: 'bust',
+  waist: 'bust',
+  fullbody: 'fullBody',
+  full: 'fullBody',
+  wide: 'fullBody',
+  long: 'fullBody',
+};
+
+/**
+ * Resolve a free-form shot name (e.g. from the agent)
+ */
+export function resolveCameraShot(name: string): CameraShot | undefined {
+  return SHOT_ALIASES[name.toLowerCase().replace(/[\s_-]/g, '')];
+}
+
+interface ShotFraming {
+  height: number;        // Vertical extent to fit, in meters
+  centerOffset: number;  // Height of the frame center relative to the anchor bone
+  anchor: 'head' | 'hips';
+}
+
+const SHOT_FRAMING: Record<CameraShot, ShotFraming> = {
+  closeUp: { height: 0.45, centerOffset: 0.02, anchor: 'head' },
+  bust: { height: 0.9, centerOffset: -0.2, anchor: 'head' },
+  fullBody: { height: 0, centerOffset: 0, anchor: 'hips' }, // Fitted to the model's height
+};
+
+export class CameraDirector {
+  private readonly camera: THREE.PerspectiveCamera;
+  private readonly controls: OrbitControls;
+  private subjects: VRM[] = [];
+  private shot: CameraShot = DEFAULT_CAMERA_SHOT;
+  private wide: boolean = false;
+  private cutPending: boolean = true;
+  private userControlMs: number | null = null; // ms left before the director takes over again
+  private userDragging: boolean = false;
+
+  // Configuration
+  private readonly followRate = 3;          // 1/s, how quickly the camera settles on a shot
+  private readonly wideFollowRate = 1.5;    // 1/s, slower while following a dance
+  private readonly returnDelayMs = 6000;    // Idle time after orbiting before returning to the shot
+  private readonly elevation = 0.08;        // Camera height above the frame center, per meter of distance
+
+  // Scratch objects
+  private readonly _target = new THREE.Vector3();
+  private readonly _position = new THREE.Vector3();
+  private readonly _bone = new THREE.Vector3();
+  private readonly _subjectTarget = new THREE.Vector3();
+
+  constructor(camera: THREE.PerspectiveCamera, controls: OrbitControls) {
+    this.camera = camera;
+    this.controls = controls;
+    controls.addEventListener('start', this.handleControlStart);
+    controls.addEventListener('end', this.handleControlEnd);
+  }
+
+  /**
+   * Set the models to frame; the first frame after a change cuts to the shot
+   */
+  setSubjects(subjects: VRM[]): void {
+    this.subjects = subjects;
+    this.cutPending = true;
+  }
+
+  /**
+   * Change the shot. Takes the camera back from the user.
+   */
+  setShot(shot: CameraShot, options: { cut?: boolean } = {}): void {
+    this.shot = shot;
+    this.userControlMs = null;
+    if (options.cut) this.cutPending = true;
+    console.log(`🎥 Camera: ${shot}${options.cut ? ' (cut)' : ''}`);
+  }
+
+  getShot(): CameraShot {
+    return this.shot;
+  }
+
+  /**
+   * Frame the whole body while large-motion clips play
+   */
+  setWide(wide: boolean): void {
+    if (wide !== this.wide) {
+      console.log(`🎥 Camera: ${wide ? 'widening for large motion' : `back to ${this.shot}`}`);
+    }
+    this.wide = wide;
+  }
+
+  /**
+   * Move the camera towards the current shot. Call every frame before controls.update.
+   */
+  update(deltaMs: number): void {
+    if (this.subjects.length === 0) return;
+
+    if (this.userDragging) return;
+    if (this.userControlMs !== null) {
+      this.userControlMs -= deltaMs;
+      if (this.userControlMs > 0) return;
+      this.userControlMs = null;
+    }
+
+    const shot = this.wide ? 'fullBody' : this.shot;
+    if (!this.computeShot(shot, this._target, this._position)) return;
+
+    if (this.cutPending) {
+      this.cutPending = false;
+      this.controls.target.copy(this._target);
+      this.camera.position.copy(this._position);
+      return;
+    }
+
+    const rate = this.wide ? this.wideFollowRate : this.followRate;
+    const follow = 1 - Math.exp(-rate * deltaMs / 1000);
+    this.controls.target.lerp(this._target, follow);
+    this.camera.position.lerp(this._position, follow);
+  }
+
+  dispose(): void {
+    this.controls.removeEventListener('start', this.handleControlStart);
+    this.controls.removeEventListener('end', this.handleControlEnd);
+  }
+
+  /**
+   * Frame center and camera position for a shot, in front of the avatars
+   */
+  private computeShot(shot: CameraShot, target: THREE.Vector3, position: THREE.Vector3): boolean {
+    let height = 0;
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let count = 0;
+    target.set(0, 0, 0);
+
+    // Frame each subject on its own, then take in all of them
+    for (const vrm of this.subjects) {
+      const subjectHeight = this.computeSubjectFrame(vrm, shot, this._subjectTarget);
+      if (subjectHeight === null) continue;
+
+      target.add(this._subjectTarget);
+      height = Math.max(height, subjectHeight);
+      minX = Math.min(minX, this._subjectTarget.x);
+      maxX = Math.max(maxX, this._subjectTarget.x);
+      count++;
+    }
+    if (count === 0) return false;
+    target.divideScalar(count);
+
+    // Fit the height vertically, and the bodies' width on narrow screens
+    const verticalFov = THREE.MathUtils.degToRad(this.camera.fov);
+    const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * this.camera.aspect);
+    const width = height * 0.6 + (maxX - minX);
+    const distance = Math.max(
+      height / 2 / Math.tan(verticalFov / 2),
+      width / 2 / Math.tan(horizontalFov / 2)
+    );
+
+    position.set(target.x, target.y + distance * this.elevation, target.z + distance);
+    return true;
+  }
+
+  /**
+   * Frame center of one avatar for a shot; returns the height to fit, or null without a skeleton
+   */
+  private computeSubjectFrame(vrm: VRM, shot: CameraShot, target: THREE.Vector3): number | null {
+    const humanoid = vrm.humanoid;
+    const head = humanoid?.getNormalizedBoneNode('head');
+    const hips = humanoid?.getNormalizedBoneNode('hips');
+    if (!head || !hips) return null;
+
+    const framing = SHOT_FRAMING[shot];
+    const rootY = vrm.scene.getWorldPosition(this._bone).y;
+    const headY = head.getWorldPosition(this._bone).y;
+
+    if (framing.anchor === 'hips') {
+      // Whole body: from the feet to a little above the head, centered on the body
+      const height = (headY - rootY) * 1.3;
+      hips.getWorldPosition(target);
+      target.y = rootY + height / 2 - 0.05;
+      return height;
+    }
+
+    head.getWorldPosition(target);
+    target.y += framing.centerOffset;
+    return framing.height;
+  }
+
+  private handleControlStart = () => {
+    this.userDragging = true;
+  };
+
+  private handleControlEnd = () => {
+    this.userDragging = false;
+    this.userControlMs = this.returnDelayMs;
+  };
+}
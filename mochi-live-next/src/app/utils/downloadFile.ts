@@ -0,0 +1,20 @@
+/**
+ * Browser downloads for exports (transcripts, recordings, captures)
+ *
+ * Features:
+ * - Saves a blob through a temporary link
+ * - Releases the blob once the download has had time to start; revoking
+ *   right after click() can cancel it in some browsers
+ */
+
+// How long the object URL outlives the click
+const REVOKE_DELAY_MS = 1000;
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
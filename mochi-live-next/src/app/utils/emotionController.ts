@@ -0,0 +1,172 @@
+/**
+ * EmotionController manages facial emotion expressions for VRM avatars
+ *
+ * Features:
+ * - Drives the VRM emotion presets (happy, angry, sad, relaxed, surprised)
+ * - Timed fade-in, hold and fade-out with adjustable intensity
+ * - Crossfades when switching from one emotion to another
+ * - Reports how much the current emotion should damp visemes and blinks, so a
+ *   smile doesn't get stretched open by lip sync and closed eyes don't double-blink
+ */
+
+export type EmotionType = 'happy' | 'angry' | 'sad' | 'relaxed' | 'surprised' | 'neutral';
+
+export type EmotionPreset = Exclude<EmotionType, 'neutral'>;
+
+export const EMOTION_PRESETS: EmotionPreset[] = ['happy', 'angry', 'sad', 'relaxed', 'surprised'];
+
+export interface EmotionOptions {
+  intensity?: number;   // 0-1 (default 1)
+  durationMs?: number;  // Hold time before fading out (default: hold until changed)
+  fadeInMs?: number;
+  fadeOutMs?: number;
+}
+
+// How much each emotion closes the mouth shapes driven by lip sync (0 = not at all)
+const MOUTH_SUPPRESSION: Record<EmotionPreset, number> = {
+  happy: 0.4,
+  angry: 0.3,
+  sad: 0.2,
+  relaxed: 0.3,
+  surprised: 0.5,
+};
+
+// How much each emotion already closes the eyes, leaving less room for blinks
+const EYE_CLOSURE: Record<EmotionPreset, number> = {
+  happy: 0.6,
+  angry: 0.2,
+  sad: 0.3,
+  relaxed: 0.5,
+  surprised: 0,
+};
+
+const EMOTION_ALIASES: Record<string, EmotionType> = {
+  happy: 'happy',
+  joy: 'happy',
+  joyful: 'happy',
+  smile: 'happy',
+  glad: 'happy',
+  angry: 'angry',
+  mad: 'angry',
+  annoyed: 'angry',
+  sad: 'sad',
+  unhappy: 'sad',
+  upset: 'sad',
+  relaxed: 'relaxed',
+  calm: 'relaxed',
+  content: 'relaxed',
+  surprised: 'surprised',
+  surprise: 'surprised',
+  shocked: 'surprised',
+  neutral: 'neutral',
+  none: 'neutral',
+  reset: 'neutral',
+};
+
+/**
+ * Resolve a free-form emotion name (e.g. from the agent) to an emotion
+ */
+export function resolveEmotion(name: string): EmotionType | undefined {
+  return EMOTION_ALIASES[name.toLowerCase().trim()];
+}
+
+export class EmotionController {
+  private weights: Record<EmotionPreset, number> = { happy: 0, angry: 0, sad: 0, relaxed: 0, surprised: 0 };
+  private current: EmotionPreset | null = null;
+  private targetIntensity: number = 0;
+  private holdRemainingMs: number | null = null; // null = hold until changed
+  private fadeInMs: number = 300;
+  private fadeOutMs: number = 500;
+
+  // Defaults
+  private readonly defaultFadeInMs = 300;
+  private readonly defaultFadeOutMs = 500;
+
+  /**
+   * Switch to an emotion. The previous emotion fades out while this one fades in.
+   * Setting 'neutral' fades everything out.
+   */
+  setEmotion(emotion: EmotionType, options: EmotionOptions = {}): void {
+    this.fadeInMs = options.fadeInMs ?? this.defaultFadeInMs;
+    this.fadeOutMs = options.fadeOutMs ?? this.defaultFadeOutMs;
+
+    if (emotion === 'neutral') {
+      this.current = null;
+      this.targetIntensity = 0;
+      this.holdRemainingMs = null;
+      console.log('🙂 Emotion cleared');
+      return;
+    }
+
+    this.current = emotion;
+    this.targetIntensity = Math.max(0, Math.min(1, options.intensity ?? 1));
+    this.holdRemainingMs = options.durationMs ?? null;
+    console.log(`😊 Emotion: ${emotion} (intensity ${this.targetIntensity.toFixed(2)}, ${options.durationMs ? `${options.durationMs}ms` : 'hold'})`);
+  }
+
+  /**
+   * Advance fades and return the weight of every emotion preset.
+   * Call this every frame in the animation loop.
+   */
+  update(deltaMs: number): Record<EmotionPreset, number> {
+    // Count down the hold time, then fade out
+    if (this.current && this.holdRemainingMs !== null) {
+      this.holdRemainingMs -= deltaMs;
+      if (this.holdRemainingMs <= 0) {
+        this.current = null;
+        this.holdRemainingMs = null;
+      }
+    }
+
+    for (const emotion of EMOTION_PRESETS) {
+      const target = emotion === this.current ? this.targetIntensity : 0;
+      const weight = this.weights[emotion];
+
+      if (weight < target) {
+        const step = this.fadeInMs > 0 ? deltaMs / this.fadeInMs : 1;
+        this.weights[emotion] = Math.min(target, weight + step);
+      } else if (weight > target) {
+        const step = this.fadeOutMs > 0 ? deltaMs / this.fadeOutMs : 1;
+        this.weights[emotion] = Math.max(target, weight - step);
+      }
+    }
+
+    return { ...this.weights };
+  }
+
+  /**
+   * Multiplier (0-1) for viseme weights so lip sync blends with the emotion
+   */
+  getMouthScale(): number {
+    return this.getScale(MOUTH_SUPPRESSION);
+  }
+
+  /**
+   * Multiplier (0-1) for the blink value, since some emotions already narrow the eyes
+   */
+  getBlinkScale(): number {
+    return this.getScale(EYE_CLOSURE);
+  }
+
+  getCurrentEmotion(): EmotionType {
+    return this.current ?? 'neutral';
+  }
+
+  /**
+   * Reset controller state
+   */
+  reset(): void {
+    this.weights = { happy: 0, angry: 0, sad: 0, relaxed: 0, surprised: 0 };
+    this.current = null;
+    this.targetIntensity = 0;
+    this.holdRemainingMs = null;
+  }
+
+  private getScale(table: Record<EmotionPreset, number>): number {
+    let scale = 1;
+    for (const emotion of EMOTION_PRESETS) {
+      scale *= 1 - table[emotion] * this.weights[emotion];
+    }
+    return scale;
+  }
+}
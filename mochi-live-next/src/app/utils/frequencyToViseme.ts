@@ -12,20 +12,55 @@ export type VisemeType = 'aa' | 'ee' | 'ih' | 'oh' | 'ou' | 'neutral';
  * F1 = first formant (mouth openness / vertical tongue position)
  * F2 = second formant (tongue front/back position)
  */
-interface FormantRange {
+export interface FormantRange {
   f1: [number, number];  // [min, max] Hz
   f2: [number, number];  // [min, max] Hz
 }
 
-const FORMANT_RANGES: Record<VisemeType, FormantRange | null> = {
+export type VowelViseme = Exclude<VisemeType, 'neutral'>;
+
+export const VOWEL_VISEMES: VowelViseme[] = ['aa', 'ee', 'ih', 'oh', 'ou'];
+
+export const DEFAULT_FORMANT_RANGES: Record<VowelViseme, FormantRange> = {
   'aa': { f1: [650, 900], f2: [1100, 1400] },   // Open mouth (like "father")
   'ee': { f1: [500, 700], f2: [1700, 2200] },   // Smile (like "see")
   'ih': { f1: [200, 400], f2: [1900, 2500] },   // Relaxed (like "sit")
   'oh': { f1: [400, 600], f2: [800, 1300] },    // Rounded (like "go")
   'ou': { f1: [300, 450], f2: [700, 1100] },    // Very rounded (like "you")
-  'neutral': null  // No specific formants
 };
 
+/**
+ * Per-voice tuning for the analyzer. Each agent voice resonates differently,
+ * so formant ranges and thresholds can be fitted with VoiceCalibrator.
+ */
+export interface VoiceProfile {
+  name: string;
+  formantRanges: Record<VowelViseme, FormantRange>;
+  minScoreThreshold: number;  // Minimum formant score to pick a vowel
+  silenceThreshold: number;   // Average amplitude (0-255) below which audio is silence
+  intensityScale: number;     // Formant score that maps to full intensity
+}
+
+export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+  name: 'default',
+  formantRanges: DEFAULT_FORMANT_RANGES,
+  minScoreThreshold: 20,
+  silenceThreshold: 10,
+  intensityScale: 150,
+};
+
+/**
+ * Analyzer configuration. The sample rate must match the AudioContext that
+ * produced the frequency data; fftSize defaults to twice the bin count.
+ */
+export interface AnalyzerOptions {
+  sampleRate?: number;
+  fftSize?: number;
+  profile?: VoiceProfile;
+}
+
+export const DEFAULT_SAMPLE_RATE = 44100;
+
 /**
  * Get total amplitude in a specific frequency band
  */
@@ -33,10 +68,11 @@ function getAmplitudeInBand(
   frequencyData: Uint8Array,
   startHz: number,
   endHz: number,
-  sampleRate: number = 44100
+  sampleRate: number,
+  fftSize: number
 ): number {
   const binCount = frequencyData.length;
-  const binWidth = (sampleRate / 2) / binCount;
+  const binWidth = sampleRate / fftSize;
 
   const startBin = Math.floor(startHz / binWidth);
   const endBin = Math.ceil(endHz / binWidth);
@@ -53,71 +89,73 @@ function getAmplitudeInBand(
 }
 
 /**
- * Determine viseme using formants approach
- * For each viseme, measure amplitude in F1 and F2 bands
- * Select the viseme with the highest combined score
+ * Average amplitude across all bins, used for silence detection
  */
-export function frequencyToViseme(frequencyData: Uint8Array | undefined): { viseme: VisemeType; intensity: number } {
-  if (!frequencyData || frequencyData.length === 0) {
-    return { viseme: 'neutral', intensity: 0 };
-  }
-
-  const sampleRate = 44100;
-
-  // Calculate overall volume for silence detection
+export function getAverageAmplitude(frequencyData: Uint8Array): number {
   let totalAmplitude = 0;
   for (let i = 0; i < frequencyData.length; i++) {
     totalAmplitude += frequencyData[i];
   }
-  const avgAmplitude = totalAmplitude / frequencyData.length;
-
-  // Silence detection
-  if (avgAmplitude < 10) {
-    return { viseme: 'neutral', intensity: 0 };
-  }
+  return frequencyData.length > 0 ? totalAmplitude / frequencyData.length : 0;
+}
 
-  // Calculate formant scores for each viseme
-  const scores: Record<VisemeType, number> = {
-    'aa': 0,
-    'ee': 0,
-    'ih': 0,
-    'oh': 0,
-    'ou': 0,
-    'neutral': 0
-  };
+/**
+ * Score every vowel viseme by its combined F1 + F2 band amplitude
+ */
+export function scoreVisemes(
+  frequencyData: Uint8Array,
+  options: AnalyzerOptions = {}
+): Record<VowelViseme, number> {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const fftSize = options.fftSize ?? frequencyData.length * 2;
+  const formantRanges = (options.profile ?? DEFAULT_VOICE_PROFILE).formantRanges;
 
-  const debugScores: Record<string, string> = {};
+  const scores = {} as Record<VowelViseme, number>;
 
-  for (const viseme of ['aa', 'ee', 'ih', 'oh', 'ou'] as VisemeType[]) {
-    const formants = FORMANT_RANGES[viseme];
-    if (!formants) continue;
+  for (const viseme of VOWEL_VISEMES) {
+    const formants = formantRanges[viseme];
 
     // Get amplitude in F1 band (first formant)
-    const f1Amplitude = getAmplitudeInBand(
-      frequencyData,
-      formants.f1[0],
-      formants.f1[1],
-      sampleRate
-    );
+    const f1Amplitude = getAmplitudeInBand(frequencyData, formants.f1[0], formants.f1[1], sampleRate, fftSize);
 
     // Get amplitude in F2 band (second formant)
-    const f2Amplitude = getAmplitudeInBand(
-      frequencyData,
-      formants.f2[0],
-      formants.f2[1],
-      sampleRate
-    );
+    const f2Amplitude = getAmplitudeInBand(frequencyData, formants.f2[0], formants.f2[1], sampleRate, fftSize);
 
     // Combined score (sum of both formants)
     scores[viseme] = f1Amplitude + f2Amplitude;
-    debugScores[viseme] = `${scores[viseme].toFixed(1)} (F1:${f1Amplitude.toFixed(1)} F2:${f2Amplitude.toFixed(1)})`;
   }
 
+  return scores;
+}
+
+/**
+ * Determine viseme using formants approach
+ * For each viseme, measure amplitude in F1 and F2 bands
+ * Select the viseme with the highest combined score
+ */
+export function frequencyToViseme(
+  frequencyData: Uint8Array | undefined,
+  options: AnalyzerOptions = {}
+): { viseme: VisemeType; intensity: number } {
+  if (!frequencyData || frequencyData.length === 0) {
+    return { viseme: 'neutral', intensity: 0 };
+  }
+
+  const profile = options.profile ?? DEFAULT_VOICE_PROFILE;
+
+  // Silence detection
+  if (getAverageAmplitude(frequencyData) < profile.silenceThreshold) {
+    return { viseme: 'neutral', intensity: 0 };
+  }
+
+  // Calculate formant scores for each viseme
+  const scores = scoreVisemes(frequencyData, options);
+
   // Find viseme with highest score
   let maxScore = 0;
   let detectedViseme: VisemeType = 'neutral';
 
-  for (const viseme of ['aa', 'ee', 'ih', 'oh', 'ou'] as VisemeType[]) {
+  for (const viseme of VOWEL_VISEMES) {
     if (scores[viseme] > maxScore) {
       maxScore = scores[viseme];
       detectedViseme = viseme;
@@ -125,13 +163,12 @@ export function frequencyToViseme(frequencyData: Uint8Array | undefined): { vise
   }
 
   // Minimum threshold to avoid false positives
-  const MIN_SCORE_THRESHOLD = 20;
-  if (maxScore < MIN_SCORE_THRESHOLD) {
+  if (maxScore < profile.minScoreThreshold) {
     detectedViseme = 'neutral';
   }
 
   // Normalize intensity based on score (0-1 range)
-  const intensity = Math.min(1.0, maxScore / 150);
+  const intensity = Math.min(1.0, maxScore / profile.intensityScale);
 
   return { viseme: detectedViseme, intensity };
 }
@@ -166,8 +203,11 @@ export class VisemeSmoother {
   private lastViseme: VisemeType = 'neutral';
   private lastVisemeTime: number = 0;
 
-  add(viseme: VisemeType, intensity: number): { viseme: VisemeType; intensity: number } {
-    const now = Date.now();
+  /**
+   * Add a frame. `now` defaults to wall-clock time; offline analysis passes
+   * the frame's position in the audio instead.
+   */
+  add(viseme: VisemeType, intensity: number, now: number = Date.now()): { viseme: VisemeType; intensity: number } {
 
     // Add to history
     this.history.push({ viseme, intensity, timestamp: now });
@@ -0,0 +1,313 @@
+import * as THREE from 'three';
+import type { VRM } from '@pixiv/three-vrm';
+import type { RandomSource } from './seededRandom';
+import { BoneOffsets, getForwardSign } from './boneOffsets';
+
+/**
+ * GazeController drives where the avatar looks
+ *
+ * Features:
+ * - Tracks the camera (default) or the pointer through vrm.lookAt
+ * - Natural micro-saccades: small, quick jumps of the gaze point every ~0.5-2s
+ * - Looks up and away while "thinking" between the user's turn and the reply
+ * - Attentive while the user talks: steadier eye contact and a slight head tilt
+ * - Can be pointed in a direction for a while (e.g. by the agent), then returns
+ * - Can focus on another character instead of the camera (e.g. whoever is speaking)
+ * - Turns the neck and head for angles the eyes can't reach, on top of the
+ *   current animation clip (call update after the mixer has posed the bones)
+ */
+
+export type GazeMode = 'camera' | 'pointer' | 'direction';
+
+export type GazeDirection = 'left' | 'right' | 'up' | 'down' | 'away';
+
+export const GAZE_DIRECTIONS: GazeDirection[] = ['left', 'right', 'up', 'down', 'away'];
+
+const GAZE_ALIASES: Record<string, { mode: GazeMode; direction?: GazeDirection }> = {
+  camera: { mode: 'camera' },
+  user: { mode: 'camera' },
+  viewer: { mode: 'camera' },
+  forward: { mode: 'camera' },
+  pointer: { mode: 'pointer' },
+  mouse: { mode: 'pointer' },
+  cursor: { mode: 'pointer' },
+  left: { mode: 'direction', direction: 'left' },
+  right: { mode: 'direction', direction: 'right' },
+  up: { mode: 'direction', direction: 'up' },
+  down: { mode: 'direction', direction: 'down' },
+  away: { mode: 'direction', direction: 'away' },
+};
+
+/**
+ * Resolve a free-form gaze target name (e.g. from the agent)
+ */
+export function resolveGazeTarget(name: string): { mode: GazeMode; direction?: GazeDirection } | undefined {
+  return GAZE_ALIASES[name.toLowerCase().trim()];
+}
+
+// Direction offsets in the avatar's body frame (x = avatar's left, y = up, z = forward), meters at 1m
+const DIRECTION_OFFSETS: Record<GazeDirection, THREE.Vector3> = {
+  left: new THREE.Vector3(0.8, 0, 1),
+  right: new THREE.Vector3(-0.8, 0, 1),
+  up: new THREE.Vector3(0, 0.6, 1),
+  down: new THREE.Vector3(0, -0.5, 1),
+  away: new THREE.Vector3(0.9, -0.15, 0.6),
+};
+
+const DEG = Math.PI / 180;
+
+export class GazeController {
+  private readonly vrm: VRM;
+  private readonly bones: BoneOffsets;
+  private readonly random: RandomSource;
+  private readonly target = new THREE.Object3D();
+  private mode: GazeMode = 'camera';
+  private direction: GazeDirection = 'away';
+  private modeRemainingMs: number | null = null;
+  private pointer: THREE.Vector2 | null = null;
+  private focus: THREE.Object3D | null = null;
+  private thinking: boolean = false;
+  private thinkingSide: number = 1;
+  private attentive: boolean = false;
+
+  // Smoothed gaze point and head turn
+  private readonly gazePoint = new THREE.Vector3(0, 1.4, 2);
+  private headYaw: number = 0;
+  private headPitch: number = 0;
+  private headRoll: number = 0;
+
+  // Micro-saccades
+  private readonly saccadeOffset = new THREE.Vector3();
+  private nextSaccadeMs: number = 0;
+
+  // Configuration
+  private readonly gazeFollowRate = 8;      // 1/s, how quickly the eyes follow a moving target
+  private readonly headFollowRate = 4;      // 1/s, the head lags behind the eyes
+  private readonly eyeYawLimit = 12 * DEG;  // Beyond this the head starts turning
+  private readonly eyePitchLimit = 8 * DEG;
+  private readonly maxHeadYaw = 50 * DEG;
+  private readonly maxHeadPitch = 30 * DEG;
+  private readonly neckShare = 0.4;         // Share of the head turn taken by the neck
+  private readonly saccadeAngle = 1.5 * DEG;
+  private readonly attentiveTilt = 5 * DEG;
+
+  // Scratch objects
+  private readonly _headPosition = new THREE.Vector3();
+  private readonly _desired = new THREE.Vector3();
+  private readonly _local = new THREE.Vector3();
+  private readonly _bodyQuaternion = new THREE.Quaternion();
+  private readonly _inverseBody = new THREE.Quaternion();
+  private readonly _raycaster = new THREE.Raycaster();
+  private readonly _plane = new THREE.Plane();
+  private readonly _cameraDirection = new THREE.Vector3();
+  private readonly _thinkingOffset = new THREE.Vector3();
+
+  // Saccades and the thinking side draw from random, which replays seed
+  constructor(vrm: VRM, random: RandomSource = Math.random) {
+    this.vrm = vrm;
+    this.bones = new BoneOffsets(vrm);
+    this.random = random;
+    vrm.scene.add(this.target);
+    if (vrm.lookAt) {
+      vrm.lookAt.target = this.target;
+      vrm.lookAt.autoUpdate = true;
+    }
+  }
+
+  /**
+   * Change what the avatar looks at. With a duration, returns to the camera afterwards.
+   */
+  setMode(mode: GazeMode, options: { direction?: GazeDirection; durationMs?: number } = {}): void {
+    this.mode = mode;
+    if (options.direction) this.direction = options.direction;
+    this.modeRemainingMs = options.durationMs ?? null;
+    console.log(`👀 Gaze: ${mode}${mode === 'direction' ? ` (${this.direction})` : ''}`);
+  }
+
+  /**
+   * Pointer position in normalized device coordinates (-1 to 1), or null when it leaves
+   */
+  setPointer(pointer: THREE.Vector2 | null): void {
+    this.pointer = pointer;
+  }
+
+  /**
+   * Look at this object instead of the camera, or back at the camera with null.
+   * Thinking, pointer and direction gazes still take precedence.
+   */
+  setFocus(focus: THREE.Object3D | null): void {
+    this.focus = focus;
+  }
+
+  /**
+   * While thinking the avatar looks up and to one side, like recalling something
+   */
+  setThinking(thinking: boolean): void {
+    if (thinking && !this.thinking) {
+      this.thinkingSide = this.random() < 0.5 ? -1 : 1;
+    }
+    this.thinking = thinking;
+  }
+
+  /**
+   * While the user is talking the avatar holds eye contact and tilts its head a little
+   */
+  setAttentive(attentive: boolean): void {
+    if (attentive && !this.attentive) {
+      // Settle the eyes on the user right away
+      this.nextSaccadeMs = 0;
+    }
+    this.attentive = attentive;
+  }
+
+  /**
+   * Update the look-at target and turn the head/neck.
+   * Call this every frame after the animation mixer and before vrm.update.
+   */
+  update(deltaMs: number, camera: THREE.Camera): void {
+    const head = this.vrm.humanoid?.getNormalizedBoneNode('head');
+    if (!head) return;
+
+    if (this.modeRemainingMs !== null) {
+      this.modeRemainingMs -= deltaMs;
+      if (this.modeRemainingMs <= 0) {
+        this.setMode('camera');
+      }
+    }
+
+    head.getWorldPosition(this._headPosition);
+    this.getBodyQuaternion(this._bodyQuaternion);
+
+    // Where the avatar wants to look this frame
+    this.computeDesiredPoint(camera, this._desired);
+    this.updateSaccade(deltaMs, camera);
+    this._desired.add(this.saccadeOffset);
+
+    // Eyes follow quickly, with a little easing so target switches aren't instant
+    const deltaSeconds = deltaMs / 1000;
+    this.gazePoint.lerp(this._desired, 1 - Math.exp(-this.gazeFollowRate * deltaSeconds));
+    this.target.parent?.worldToLocal(this.target.position.copy(this.gazePoint));
+
+    this.applyHeadTurn(deltaSeconds);
+  }
+
+  dispose(): void {
+    if (this.vrm.lookAt?.target === this.target) {
+      this.vrm.lookAt.target = null;
+    }
+    this.target.removeFromParent();
+  }
+
+  /**
+   * The frame the head turns in: the bone the neck hangs from
+   */
+  private getBodyQuaternion(target: THREE.Quaternion): THREE.Quaternion {
+    const humanoid = this.vrm.humanoid;
+    const body = humanoid?.getNormalizedBoneNode('upperChest')
+      ?? humanoid?.getNormalizedBoneNode('chest')
+      ?? humanoid?.getNormalizedBoneNode('spine');
+    return body ? body.getWorldQuaternion(target) : this.vrm.scene.getWorldQuaternion(target);
+  }
+
+  private computeDesiredPoint(camera: THREE.Camera, target: THREE.Vector3): void {
+    if (this.thinking) {
+      this.bodyOffsetToWorld(this._thinkingOffset.set(0.5 * this.thinkingSide, 0.45, 1), target);
+      return;
+    }
+
+    if (this.mode === 'direction') {
+      this.bodyOffsetToWorld(DIRECTION_OFFSETS[this.direction], target);
+      return;
+    }
+
+    if (this.mode === 'pointer' && this.pointer) {
+      // Project the pointer onto a plane through the head, facing the camera
+      camera.getWorldDirection(this._cameraDirection);
+      this._plane.setFromNormalAndCoplanarPoint(this._cameraDirection, this._headPosition);
+      this._raycaster.setFromCamera(this.pointer, camera);
+      if (this._raycaster.ray.intersectPlane(this._plane, target)) {
+        // Pull the point toward the camera so the avatar doesn't go cross-eyed
+        target.lerp(camera.getWorldPosition(this._local), 0.5);
+        return;
+      }
+    }
+
+    if (this.focus) {
+      this.focus.getWorldPosition(target);
+      return;
+    }
+
+    camera.getWorldPosition(target);
+  }
+
+  /**
+   * Convert an offset in the avatar's body frame to a world-space point in front of the head
+   */
+  private bodyOffsetToWorld(offset: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    const sign = getForwardSign(this.vrm);
+    return target
+      .set(offset.x * sign, offset.y, offset.z * sign)
+      .applyQuaternion(this._bodyQuaternion)
+      .add(this._headPosition);
+  }
+
+  private updateSaccade(deltaMs: number, camera: THREE.Camera): void {
+    this.nextSaccadeMs -= deltaMs;
+    if (this.nextSaccadeMs > 0) return;
+
+    // Thinking gaze wanders more, attentive gaze less
+    const angle = this.saccadeAngle * (this.thinking ? 3 : this.attentive ? 0.5 : 1);
+    const distance = this._headPosition.distanceTo(camera.getWorldPosition(this._local));
+    const radius = Math.tan(angle) * Math.max(0.5, distance);
+
+    this.saccadeOffset.set(
+      (this.random() * 2 - 1) * radius,
+      (this.random() * 2 - 1) * radius * 0.6,
+      0
+    );
+    this.nextSaccadeMs = (400 + this.random() * 1600) * (this.attentive ? 2 : 1);
+  }
+
+  /**
+   * Turn the neck and head by whatever the eyes can't cover
+   */
+  private applyHeadTurn(deltaSeconds: number): void {
+    const humanoid = this.vrm.humanoid;
+    const neck = humanoid?.getNormalizedBoneNode('neck');
+    const head = humanoid?.getNormalizedBoneNode('head');
+    if (!head) return;
+
+    // Gaze direction in the body frame
+    const sign = getForwardSign(this.vrm);
+    this._inverseBody.copy(this._bodyQuaternion).invert();
+    this._local.copy(this.gazePoint).sub(this._headPosition).applyQuaternion(this._inverseBody);
+
+    const yaw = Math.atan2(this._local.x * sign, this._local.z * sign);
+    const pitch = Math.atan2(this._local.y, Math.hypot(this._local.x, this._local.z));
+
+    const excess = (angle: number, limit: number, max: number) => (
+      Math.sign(angle) * Math.min(max, Math.max(0, Math.abs(angle) - limit))
+    );
+    const targetYaw = excess(yaw, this.eyeYawLimit, this.maxHeadYaw);
+    const targetPitch = excess(pitch, this.eyePitchLimit, this.maxHeadPitch);
+
+    const follow = 1 - Math.exp(-this.headFollowRate * deltaSeconds);
+    this.headYaw += (targetYaw - this.headYaw) * follow;
+    this.headPitch += (targetPitch - this.headPitch) * follow;
+    // Tilt towards the side of the last thinking glance, so it doesn't flip every turn
+    const targetRoll = this.attentive && !this.thinking ? this.attentiveTilt * this.thinkingSide : 0;
+    this.headRoll += (targetRoll - this.headRoll) * follow;
+
+    // Pitch is positive looking up, the opposite of the forward tip
+    const applyShare = (bone: 'neck' | 'head', share: number) => {
+      this.bones.rotate(bone, -sign * this.headPitch * share, this.headYaw * share, this.headRoll * share);
+    };
+
+    if (neck) {
+      applyShare('neck', this.neckShare);
+      applyShare('head', 1 - this.neckShare);
+    } else {
+      applyShare('head', 1);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import type { VRM } from '@pixiv/three-vrm';
+import type { RandomSource } from './seededRandom';
+import { BoneOffsets, getForwardSign } from './boneOffsets';
+
+/**
+ * IdleMotionController adds procedural micro-motion on top of the idle loop
+ *
+ * Features:
+ * - Breathing: slow rise and fall of the chest and upper chest
+ * - Sway: smooth noise on the spine and head so the pose never repeats exactly
+ * - Weight shifts: every ~6-14s the hips drift to one side, with the spine
+ *   leaning back so the upper body stays upright
+ * - Follows the base loop's weight, so it fades out while a clip takes over
+ *   (upper-body motion for gestures, all of it for full-body clips)
+ *
+ * Offsets are multiplied onto the pose the mixer just wrote, so call update
+ * every frame after the mixer and before the gaze controller.
+ */
+
+export interface IdleMotionWeights {
+  upper: number; // 0-1, how much of the upper body the base loop owns
+  lower: number; // 0-1, same for the hips and legs
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Smooth 1D value noise in [-1, 1]
+ */
+function valueNoise(t: number, seed: number): number {
+  const hash = (n: number) => {
+    const x = Math.sin(n * 127.1 + seed * 311.7) * 43758.5453;
+    return (x - Math.floor(x)) * 2 - 1;
+  };
+  const i = Math.floor(t);
+  const f = t - i;
+  const smooth = f * f * (3 - 2 * f);
+  return hash(i) + (hash(i + 1) - hash(i)) * smooth;
+}
+
+export class IdleMotionController {
+  private readonly vrm: VRM;
+  private readonly bones: BoneOffsets;
+  private amplitude: number;
+  private elapsed: number = 0; // Seconds
+  private readonly random: RandomSource;
+  private readonly seed: number;
+
+  // Weight shift state
+  private shift: number = 0;          // Current side, -1 to 1
+  private shiftFrom: number = 0;
+  private shiftTo: number = 0;
+  private shiftProgress: number = 1;
+  private nextShiftIn: number = 0;    // Seconds
+
+  // Configuration
+  private readonly breathsPerMinute = 14;
+  private readonly breathChestAngle = 0.6 * DEG;
+  private readonly breathUpperChestAngle = 0.9 * DEG;
+  private readonly swaySpeed = 0.25;            // Noise lattice points per second
+  private readonly spineSwayAngle = 0.8 * DEG;
+  private readonly headSwayAngle = 1.5 * DEG;
+  private readonly minShiftInterval = 6;        // Seconds between weight shifts
+  private readonly maxShiftInterval = 14;
+  private readonly shiftDuration = 1.6;         // Seconds to move across
+  private readonly shiftHipsOffset = 0.012;     // Meters
+  private readonly shiftHipsRoll = 1.5 * DEG;
+
+  constructor(vrm: VRM, amplitude: number = 1, random: RandomSource = Math.random) {
+    this.vrm = vrm;
+    this.bones = new BoneOffsets(vrm);
+    this.amplitude = amplitude;
+    this.random = random;
+    this.seed = random() * 100;
+    this.nextShiftIn = this.randomShiftInterval();
+  }
+
+  /**
+   * Scale every offset (0 disables the layer, 1 is the default strength)
+   */
+  setAmplitude(amplitude: number): void {
+    this.amplitude = Math.max(0, amplitude);
+  }
+
+  /**
+   * Advance the layer and apply it to the normalized bones.
+   * Call this every frame after the animation mixer.
+   */
+  update(deltaMs: number, weights: IdleMotionWeights): void {
+    const deltaSeconds = deltaMs / 1000;
+    this.elapsed += deltaSeconds;
+    this.updateShift(deltaSeconds);
+
+    const upper = weights.upper * this.amplitude;
+    const lower = weights.lower * this.amplitude;
+    if (upper <= 0 && lower <= 0) return;
+
+    const sign = getForwardSign(this.vrm);
+    const t = this.elapsed;
+
+    if (upper > 0) {
+      // Inhale lifts the chest slightly back
+      const breath = Math.sin(t * 2 * Math.PI * this.breathsPerMinute / 60);
+      this.bones.rotate('chest', -sign * breath * this.breathChestAngle * upper, 0, 0);
+      this.bones.rotate('upperChest', -sign * breath * this.breathUpperChestAngle * upper, 0, 0);
+
+      const sway = t * this.swaySpeed;
+      this.bones.rotate(
+        'spine',
+        this.noise(sway, 1) * this.spineSwayAngle * upper,
+        this.noise(sway, 2) * this.spineSwayAngle * upper,
+        this.noise(sway, 3) * this.spineSwayAngle * upper
+      );
+      this.bones.rotate(
+        'head',
+        this.noise(sway * 1.3, 4) * this.headSwayAngle * upper,
+        this.noise(sway * 1.3, 5) * this.headSwayAngle * upper,
+        this.noise(sway * 1.3, 6) * this.headSwayAngle * 0.5 * upper
+      );
+    }
+
+    if (lower > 0 && this.shift !== 0) {
+      const hips = this.vrm.humanoid?.getNormalizedBoneNode('hips');
+      if (hips) {
+        hips.position.x += this.shift * this.shiftHipsOffset * lower;
+        this.bones.rotate('hips', 0, 0, this.shift * this.shiftHipsRoll * lower);
+        // Lean back over the hips so the head stays put
+        this.bones.rotate('spine', 0, 0, -this.shift * this.shiftHipsRoll * lower);
+      }
+    }
+  }
+
+  private updateShift(deltaSeconds: number): void {
+    if (this.shiftProgress < 1) {
+      this.shiftProgress = Math.min(1, this.shiftProgress + deltaSeconds / this.shiftDuration);
+      const eased = this.shiftProgress * this.shiftProgress * (3 - 2 * this.shiftProgress);
+      this.shift = this.shiftFrom + (this.shiftTo - this.shiftFrom) * eased;
+      return;
+    }
+
+    this.nextShiftIn -= deltaSeconds;
+    if (this.nextShiftIn > 0) return;
+
+    // Move to the other side, or back towards the middle
+    this.shiftFrom = this.shift;
+    this.shiftTo = this.shift === 0 || this.random() < 0.7
+      ? -Math.sign(this.shift || (this.random() - 0.5)) * (0.5 + this.random() * 0.5)
+      : 0;
+    this.shiftProgress = 0;
+    this.nextShiftIn = this.randomShiftInterval();
+  }
+
+  private randomShiftInterval(): number {
+    return this.minShiftInterval + this.random() * (this.maxShiftInterval - this.minShiftInterval);
+  }
+
+  private noise(t: number, channel: number): number {
+    return valueNoise(t, this.seed + channel * 17);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Minimal promise helpers around IndexedDB
+ *
+ * All app data lives in one database; each feature owns an object store that
+ * is created in the upgrade step below. Bump DB_VERSION when adding a store.
+ * Open connections close when another tab upgrades, and an upgrade blocked
+ * by an older tab fails instead of waiting, so callers can carry on without
+ * their store.
+ */
+
+const DB_NAME = 'mochi-live';
+const DB_VERSION = 2;
+
+export const STORES = {
+  transcripts: 'transcripts',
+  animationClips: 'animationClips',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and upgrade) the app database once per page
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.transcripts)) {
+        db.createObjectStore(STORES.transcripts, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.animationClips)) {
+        db.createObjectStore(STORES.animationClips, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade; reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+    // A tab from before the upgrade still holds the database open
+    request.onblocked = () => {
+      databasePromise = null;
+      reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    };
+  });
+
+  return databasePromise;
+}
+
+/**
+ * Run a single request against a store
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return requestToPromise(run(transaction.objectStore(storeName)));
+}
@@ -0,0 +1,152 @@
+import { getAverageAmplitude } from './frequencyToViseme';
+import type { RandomSource } from './seededRandom';
+
+/**
+ * ListeningController reads the user's microphone to make the avatar listen
+ *
+ * Features:
+ * - Voice activity detection against an adaptive noise floor, with a short
+ *   hangover so gaps between words don't count as pauses
+ * - Attentive while the user has the turn (steady eye contact, head tilt)
+ * - Backchannels: occasional nods in short pauses of a longer utterance
+ * - End of turn: after a longer pause the avatar thinks until the agent speaks,
+ *   well before the transcript of the user's turn arrives
+ *
+ * The controller only decides; AvatarCharacter applies the results to the gaze and
+ * animation controllers. Input is ignored while the agent is speaking.
+ */
+
+// Clips used for backchannel nods, alternated
+export const BACKCHANNEL_ANIMATIONS = ['headNodYes', 'acknowledging'];
+
+export class ListeningController {
+  private noiseFloor: number = 4;
+  private voiced: boolean = false;
+  private sinceVoice: number = Infinity;   // ms since the level was last above the threshold
+  private turnSpeech: number = 0;          // ms of user speech in the current turn
+  private utteranceSpeech: number = 0;     // ms of speech since the last pause
+  private pauseHandled: boolean = true;
+  private awaitingReply: boolean = false;
+  private sinceTurnEnd: number = 0;
+  private sinceBackchannel: number = Infinity;
+  private backchannelCooldown: number = 0;
+  private backchannelIndex: number = 0;
+
+  // Voice activity configuration
+  private readonly minVoiceLevel = 8;        // Average amplitude (0-255)
+  private readonly noiseMargin = 1.8;        // Voice must be this far above the noise floor
+  private readonly floorFallRate = 2;        // 1/s, follow quieter input quickly
+  private readonly floorRiseRate = 0.05;     // 1/s, but louder input only slowly
+  private readonly hangoverMs = 250;
+
+  // Turn-taking configuration
+  private readonly backchannelPause = 300;       // ms of pause that invites a nod
+  private readonly minBackchannelSpeech = 2500;  // ms of speech before the first nod
+  private readonly minBackchannelCooldown = 4000;
+  private readonly maxBackchannelCooldown = 8000;
+  private readonly backchannelChance = 0.6;
+  private readonly endOfTurnPause = 800;         // ms of pause that ends the user's turn
+  private readonly minTurnSpeech = 600;
+  private readonly maxAwaitReply = 10000;        // ms before giving up on a reply that never comes
+
+  // Decides which pauses get a nod; seeded for replays
+  private readonly random: RandomSource;
+
+  constructor(random: RandomSource = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Advance with this frame's input spectrum.
+   * Returns the id of a backchannel clip to play now, if any.
+   */
+  update(deltaMs: number, inputData: Uint8Array | undefined, agentSpeaking: boolean): string | null {
+    this.sinceBackchannel += deltaMs;
+    this.sinceTurnEnd += deltaMs;
+    if (this.awaitingReply && this.sinceTurnEnd > this.maxAwaitReply) {
+      this.awaitingReply = false;
+    }
+
+    // The agent has the turn (or there is no mic): nothing to listen to
+    if (agentSpeaking || !inputData) {
+      this.reset();
+      return null;
+    }
+
+    this.updateVoiceActivity(deltaMs, getAverageAmplitude(inputData));
+
+    if (this.voiced) {
+      this.turnSpeech += deltaMs;
+      this.utteranceSpeech += deltaMs;
+      this.pauseHandled = false;
+      this.awaitingReply = false;
+      return null;
+    }
+
+    if (this.turnSpeech === 0) return null;
+    const pause = this.sinceVoice;
+
+    if (pause >= this.endOfTurnPause) {
+      if (this.turnSpeech >= this.minTurnSpeech) {
+        console.log(`👂 User turn ended (${(this.turnSpeech / 1000).toFixed(1)}s)`);
+        this.awaitingReply = true;
+        this.sinceTurnEnd = 0;
+      }
+      this.turnSpeech = 0;
+      this.utteranceSpeech = 0;
+      return null;
+    }
+
+    if (pause >= this.backchannelPause && !this.pauseHandled) {
+      this.pauseHandled = true;
+      const spokeLongEnough = this.utteranceSpeech >= this.minBackchannelSpeech;
+      this.utteranceSpeech = 0;
+
+      if (spokeLongEnough && this.sinceBackchannel >= this.backchannelCooldown && this.random() < this.backchannelChance) {
+        this.sinceBackchannel = 0;
+        this.backchannelCooldown = this.minBackchannelCooldown
+          + this.random() * (this.maxBackchannelCooldown - this.minBackchannelCooldown);
+        const animation = BACKCHANNEL_ANIMATIONS[this.backchannelIndex++ % BACKCHANNEL_ANIMATIONS.length];
+        console.log(`👂 Backchannel: ${animation}`);
+        return animation;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The user has the turn (speaking, or pausing mid-turn)
+   */
+  isAttentive(): boolean {
+    return this.turnSpeech > 0;
+  }
+
+  /**
+   * The user finished their turn and the agent hasn't started replying yet
+   */
+  isAwaitingReply(): boolean {
+    return this.awaitingReply;
+  }
+
+  reset(): void {
+    this.voiced = false;
+    this.sinceVoice = Infinity;
+    this.turnSpeech = 0;
+    this.utteranceSpeech = 0;
+    this.pauseHandled = true;
+    this.awaitingReply = false;
+  }
+
+  private updateVoiceActivity(deltaMs: number, level: number): void {
+    const rate = level < this.noiseFloor ? this.floorFallRate : this.floorRiseRate;
+    this.noiseFloor += (level - this.noiseFloor) * (1 - Math.exp(-rate * deltaMs / 1000));
+
+    if (level > Math.max(this.minVoiceLevel, this.noiseFloor * this.noiseMargin)) {
+      this.sinceVoice = 0;
+    } else {
+      this.sinceVoice += deltaMs;
+    }
+    this.voiced = this.sinceVoice < this.hangoverMs;
+  }
+}
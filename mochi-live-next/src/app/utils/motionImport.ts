@@ -0,0 +1,409 @@
+import * as THREE from 'three';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { BVHLoader } from 'three/examples/jsm/loaders/BVHLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRMAnimation, VRMAnimationLoaderPlugin, createVRMAnimationHumanoidTracks } from '@pixiv/three-vrm-animation';
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+/**
+ * Motion import: loads body animation from several formats and retargets it
+ * onto a VRM's normalized humanoid bones
+ *
+ * Features:
+ * - FBX (Mixamo, Unreal, Rigify, ... via bone maps)
+ * - BVH motion capture (e.g. the CMU library)
+ * - VRM Animation (.vrma), which is already humanoid and needs no bone map
+ * - Built-in bone maps with auto-detection, plus registerBoneMap() for custom rigs
+ *
+ * Only humanoid motion is imported: VRMA expression and look-at tracks are
+ * skipped so they don't fight the emotion and gaze controllers.
+ */
+
+export type MotionFormat = 'fbx' | 'bvh' | 'vrma';
+
+// Source bone name -> VRM humanoid bone name
+export type BoneMap = Record<string, VRMHumanBoneName>;
+
+export interface MotionLoadOptions {
+  // Defaults to the file extension
+  format?: MotionFormat;
+  // A bone map or the name of a registered one; auto-detected when omitted
+  boneMap?: BoneMap | string;
+  // Hips height from getVrmHipsHeight, measured in rest pose
+  hipsHeight?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Bone maps
+// ---------------------------------------------------------------------------
+
+type Side = 'left' | 'right';
+
+const FINGERS = ['Thumb', 'Index', 'Middle', 'Ring', 'Little'] as const;
+const THUMB_SEGMENTS = ['Metacarpal', 'Proximal', 'Distal'] as const;
+const FINGER_SEGMENTS = ['Proximal', 'Intermediate', 'Distal'] as const;
+
+/**
+ * Build the finger entries of a map from a naming function
+ */
+function fingerBones(name: (side: Side, finger: typeof FINGERS[number], index: number) => string): BoneMap {
+  const map: BoneMap = {};
+  for (const side of ['left', 'right'] as const) {
+    for (const finger of FINGERS) {
+      const segments = finger === 'Thumb' ? THUMB_SEGMENTS : FINGER_SEGMENTS;
+      segments.forEach((segment, index) => {
+        map[name(side, finger, index + 1)] = `${side}${finger}${segment}` as VRMHumanBoneName;
+      });
+    }
+  }
+  return map;
+}
+
+/**
+ * Build the limb entries of a map that names both sides the same way
+ */
+function sidedBones(name: (side: Side, bone: string) => string, bones: Record<string, string>): BoneMap {
+  const map: BoneMap = {};
+  for (const side of ['left', 'right'] as const) {
+    for (const [source, target] of Object.entries(bones)) {
+      map[name(side, source)] = `${side}${target}` as VRMHumanBoneName;
+    }
+  }
+  return map;
+}
+
+const capitalize = (side: Side) => side === 'left' ? 'Left' : 'Right';
+
+export const MIXAMO_BONE_MAP: BoneMap = {
+  'mixamorig:Hips': 'hips',
+  'mixamorig:Spine': 'spine',
+  'mixamorig:Spine1': 'chest',
+  'mixamorig:Spine2': 'upperChest',
+  'mixamorig:Neck': 'neck',
+  'mixamorig:Head': 'head',
+  ...sidedBones((side, bone) => `mixamorig:${capitalize(side)}${bone}`, {
+    Shoulder: 'Shoulder',
+    Arm: 'UpperArm',
+    ForeArm: 'LowerArm',
+    Hand: 'Hand',
+    UpLeg: 'UpperLeg',
+    Leg: 'LowerLeg',
+    Foot: 'Foot',
+    ToeBase: 'Toes',
+  }),
+  ...fingerBones((side, finger, index) => `mixamorig:${capitalize(side)}Hand${finger === 'Little' ? 'Pinky' : finger}${index}`),
+};
+
+// Unreal Engine mannequin (UE4/UE5)
+export const UNREAL_BONE_MAP: BoneMap = {
+  pelvis: 'hips',
+  spine_01: 'spine',
+  spine_02: 'chest',
+  spine_03: 'upperChest',
+  neck_01: 'neck',
+  head: 'head',
+  ...sidedBones((side, bone) => `${bone}_${side[0]}`, {
+    clavicle: 'Shoulder',
+    upperarm: 'UpperArm',
+    lowerarm: 'LowerArm',
+    hand: 'Hand',
+    thigh: 'UpperLeg',
+    calf: 'LowerLeg',
+    foot: 'Foot',
+    ball: 'Toes',
+  }),
+  ...fingerBones((side, finger, index) => `${finger === 'Little' ? 'pinky' : finger.toLowerCase()}_0${index}_${side[0]}`),
+};
+
+// Blender Rigify deform bones
+export const RIGIFY_BONE_MAP: BoneMap = {
+  'DEF-spine': 'hips',
+  'DEF-spine.001': 'spine',
+  'DEF-spine.002': 'chest',
+  'DEF-spine.003': 'upperChest',
+  'DEF-spine.004': 'neck',
+  'DEF-spine.006': 'head',
+  ...sidedBones((side, bone) => `DEF-${bone}.${side === 'left' ? 'L' : 'R'}`, {
+    shoulder: 'Shoulder',
+    upper_arm: 'UpperArm',
+    forearm: 'LowerArm',
+    hand: 'Hand',
+    thigh: 'UpperLeg',
+    shin: 'LowerLeg',
+    foot: 'Foot',
+    toe: 'Toes',
+  }),
+  ...fingerBones((side, finger, index) => {
+    const name = finger === 'Thumb' ? 'thumb' : `f_${finger === 'Little' ? 'pinky' : finger.toLowerCase()}`;
+    return `DEF-${name}.0${index}.${side === 'left' ? 'L' : 'R'}`;
+  }),
+};
+
+// CMU motion capture library BVH skeleton
+export const CMU_BONE_MAP: BoneMap = {
+  Hips: 'hips',
+  LowerBack: 'spine',
+  Spine: 'chest',
+  Spine1: 'upperChest',
+  Neck: 'neck',
+  Head: 'head',
+  ...sidedBones((side, bone) => `${capitalize(side)}${bone}`, {
+    Shoulder: 'Shoulder',
+    Arm: 'UpperArm',
+    ForeArm: 'LowerArm',
+    Hand: 'Hand',
+    UpLeg: 'UpperLeg',
+    Leg: 'LowerLeg',
+    Foot: 'Foot',
+    ToeBase: 'Toes',
+  }),
+};
+
+const boneMaps = new Map<string, BoneMap>([
+  ['mixamo', MIXAMO_BONE_MAP],
+  ['unreal', UNREAL_BONE_MAP],
+  ['rigify', RIGIFY_BONE_MAP],
+  ['cmu', CMU_BONE_MAP],
+]);
+
+/**
+ * Register a bone map for a custom rig so manifest entries can refer to it by name
+ */
+export function registerBoneMap(name: string, map: BoneMap): void {
+  boneMaps.set(name, map);
+}
+
+export function getBoneMap(name: string): BoneMap | undefined {
+  return boneMaps.get(name);
+}
+
+export function listBoneMaps(): string[] {
+  return [...boneMaps.keys()];
+}
+
+/**
+ * Bone names are compared the way three.js stores node names (FBXLoader strips
+ * characters such as ':' and '.'), ignoring case
+ */
+function normalizeBoneName(name: string): string {
+  return THREE.PropertyBinding.sanitizeNodeName(name).toLowerCase();
+}
+
+function createBoneLookup(map: BoneMap): Map<string, VRMHumanBoneName> {
+  return new Map(Object.entries(map).map(([source, target]) => [normalizeBoneName(source), target]));
+}
+
+/**
+ * Pick the registered bone map that matches the most of the given bone names
+ */
+export function detectBoneMap(boneNames: string[]): { name: string; map: BoneMap } | undefined {
+  const normalized = boneNames.map(normalizeBoneName);
+  let best: { name: string; map: BoneMap; matches: number } | undefined;
+
+  for (const [name, map] of boneMaps) {
+    const lookup = createBoneLookup(map);
+    const matches = normalized.filter(bone => lookup.has(bone)).length;
+    if (matches > 0 && (!best || matches > best.matches)) {
+      best = { name, map, matches };
+    }
+  }
+
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Retargeting
+// ---------------------------------------------------------------------------
+
+/**
+ * Node name and property of a track, for both "Bone.quaternion" and BVHLoader's ".bones[Bone].quaternion"
+ */
+function parseTrack(trackName: string): { bone: string; property: string } {
+  const parsed = THREE.PropertyBinding.parseTrackName(trackName);
+  return {
+    bone: parsed.objectName === 'bones' && parsed.objectIndex ? String(parsed.objectIndex) : parsed.nodeName,
+    property: parsed.propertyName,
+  };
+}
+
+/**
+ * Retarget a clip from a source skeleton onto the VRM's normalized bones.
+ *
+ * Rotations are converted from the source rest pose into the VRM's T-pose
+ * space; only the hips translation is kept, scaled to the VRM's hip height.
+ *
+ * @param clip Source clip
+ * @param getSourceBone Finds a source bone (in rest pose) by name
+ * @param vrm Target VRM
+ * @param boneMap Source bone name -> VRM humanoid bone name
+ * @param hipsHeight VRM hips height (see getVrmHipsHeight)
+ */
+export function retargetClip(
+  clip: THREE.AnimationClip,
+  getSourceBone: (name: string) => THREE.Object3D | undefined,
+  vrm: VRM,
+  boneMap: BoneMap,
+  hipsHeight: number
+): THREE.AnimationClip {
+  const lookup = createBoneLookup(boneMap);
+  const isVRM0 = vrm.meta?.metaVersion === '0';
+  const tracks: THREE.KeyframeTrack[] = [];
+
+  const restRotationInverse = new THREE.Quaternion();
+  const parentRestWorldRotation = new THREE.Quaternion();
+  const _quatA = new THREE.Quaternion();
+  const _vec3 = new THREE.Vector3();
+  const _scale = new THREE.Vector3();
+
+  for (const track of clip.tracks) {
+    const { bone, property } = parseTrack(track.name);
+    const vrmBoneName = lookup.get(normalizeBoneName(bone));
+    const vrmNodeName = vrmBoneName ? vrm.humanoid?.getNormalizedBoneNode(vrmBoneName)?.name : undefined;
+    const sourceBone = getSourceBone(bone);
+    if (vrmNodeName == null || !vrmBoneName || !sourceBone) continue;
+
+    // Store rotations of rest-pose.
+    sourceBone.getWorldQuaternion(restRotationInverse).invert();
+    if (sourceBone.parent) {
+      sourceBone.parent.getWorldQuaternion(parentRestWorldRotation);
+    } else {
+      parentRestWorldRotation.identity();
+    }
+
+    if (track instanceof THREE.QuaternionKeyframeTrack && property === 'quaternion') {
+      // Parent's rest world rotation * track rotation * inverse rest world rotation
+      const values = new Float32Array(track.values.length);
+      for (let i = 0; i < values.length; i += 4) {
+        _quatA
+          .fromArray(track.values, i)
+          .premultiply(parentRestWorldRotation)
+          .multiply(restRotationInverse)
+          .toArray(values, i);
+      }
+
+      tracks.push(new THREE.QuaternionKeyframeTrack(
+        `${vrmNodeName}.quaternion`,
+        track.times,
+        Array.from(values, (v, i) => (isVRM0 && i % 2 === 0 ? -v : v)),
+      ));
+    } else if (track instanceof THREE.VectorKeyframeTrack && property === 'position' && vrmBoneName === 'hips') {
+      // Bring hip positions into world space so Z-up or scaled rigs work too
+      const parentScale = sourceBone.parent ? sourceBone.parent.getWorldScale(_scale).y : 1;
+      const values = new Float32Array(track.values.length);
+      for (let i = 0; i < values.length; i += 3) {
+        _vec3.fromArray(track.values, i).multiplyScalar(parentScale).applyQuaternion(parentRestWorldRotation).toArray(values, i);
+      }
+
+      // Rest height of the source hips; rigs with the root at the hips (BVH) use the first frame
+      let root: THREE.Object3D = sourceBone;
+      while (root.parent) root = root.parent;
+      let sourceHipsHeight = sourceBone.getWorldPosition(_vec3).y - root.getWorldPosition(_scale).y;
+      if (sourceHipsHeight < 1e-3) sourceHipsHeight = values[1];
+      const hipsPositionScale = sourceHipsHeight > 1e-3 ? hipsHeight / sourceHipsHeight : 1;
+
+      tracks.push(new THREE.VectorKeyframeTrack(
+        `${vrmNodeName}.position`,
+        track.times,
+        Array.from(values, (v, i) => (isVRM0 && i % 3 !== 1 ? -v : v) * hipsPositionScale),
+      ));
+    }
+  }
+
+  return new THREE.AnimationClip('vrmAnimation', clip.duration, tracks);
+}
+
+// ---------------------------------------------------------------------------
+// Loaders
+// ---------------------------------------------------------------------------
+
+/**
+ * Height of the VRM's hips above its root, used to scale hip motion.
+ * Measure it before animations start playing, while the model is in rest pose.
+ */
+export function getVrmHipsHeight(vrm: VRM): number {
+  const _vec3 = new THREE.Vector3();
+  const vrmHipsY = vrm.humanoid?.getNormalizedBoneNode('hips')?.getWorldPosition(_vec3).y;
+  const vrmRootY = vrm.scene.getWorldPosition(_vec3).y;
+  return Math.abs(vrmHipsY! - vrmRootY);
+}
+
+export function detectMotionFormat(url: string): MotionFormat | undefined {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension === 'fbx' || extension === 'bvh' || extension === 'vrma' ? extension : undefined;
+}
+
+function resolveBoneMap(option: BoneMap | string | undefined, boneNames: string[], url: string): BoneMap {
+  if (typeof option === 'object') return option;
+
+  if (option) {
+    const map = getBoneMap(option);
+    if (!map) throw new Error(`Unknown bone map "${option}". Available: ${listBoneMaps().join(', ')}`);
+    return map;
+  }
+
+  const detected = detectBoneMap(boneNames);
+  if (!detected) throw new Error(`No bone map matches the skeleton in ${url}`);
+  console.log(`🦴 ${url}: using ${detected.name} bone map`);
+  return detected.map;
+}
+
+async function loadFbxMotion(url: string, vrm: VRM, options: MotionLoadOptions, hipsHeight: number): Promise<THREE.AnimationClip> {
+  const asset = await new FBXLoader().loadAsync(url);
+
+  // Mixamo names its take "mixamo.com"; other exporters use their own names
+  const clip = THREE.AnimationClip.findByName(asset.animations, 'mixamo.com') ?? asset.animations[0];
+  if (!clip) {
+    throw new Error('Animation clip not found in FBX file');
+  }
+
+  const boneNames: string[] = [];
+  asset.traverse(object => boneNames.push(object.name));
+  const boneMap = resolveBoneMap(options.boneMap, boneNames, url);
+
+  return retargetClip(clip, name => asset.getObjectByName(name), vrm, boneMap, hipsHeight);
+}
+
+async function loadBvhMotion(url: string, vrm: VRM, options: MotionLoadOptions, hipsHeight: number): Promise<THREE.AnimationClip> {
+  const { skeleton, clip } = await new BVHLoader().loadAsync(url);
+  skeleton.bones[0]?.updateMatrixWorld(true);
+
+  const boneMap = resolveBoneMap(options.boneMap, skeleton.bones.map(bone => bone.name), url);
+  return retargetClip(clip, name => skeleton.getBoneByName(name), vrm, boneMap, hipsHeight);
+}
+
+async function loadVrmaMotion(url: string, vrm: VRM): Promise<THREE.AnimationClip> {
+  const loader = new GLTFLoader();
+  loader.register((parser) => new VRMAnimationLoaderPlugin(parser));
+
+  const gltf = await loader.loadAsync(url);
+  const vrmAnimation = (gltf.userData.vrmAnimations as VRMAnimation[] | undefined)?.[0];
+  if (!vrmAnimation) {
+    throw new Error('No VRM animation found in file');
+  }
+
+  const { translation, rotation } = createVRMAnimationHumanoidTracks(
+    vrmAnimation,
+    vrm.humanoid,
+    vrm.meta?.metaVersion === '0' ? '0' : '1'
+  );
+  return new THREE.AnimationClip('vrmAnimation', vrmAnimation.duration, [...translation.values(), ...rotation.values()]);
+}
+
+/**
+ * Load a motion file and retarget it to the VRM
+ */
+export async function loadMotion(url: string, vrm: VRM, options: MotionLoadOptions = {}): Promise<THREE.AnimationClip> {
+  const format = options.format ?? detectMotionFormat(url);
+  const hipsHeight = options.hipsHeight ?? getVrmHipsHeight(vrm);
+
+  switch (format) {
+    case 'fbx':
+      return loadFbxMotion(url, vrm, options, hipsHeight);
+    case 'bvh':
+      return loadBvhMotion(url, vrm, options, hipsHeight);
+    case 'vrma':
+      return loadVrmaMotion(url, vrm);
+    default:
+      throw new Error(`Unknown motion format for ${url}; pass format explicitly`);
+  }
+}
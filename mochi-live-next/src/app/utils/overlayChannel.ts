@@ -0,0 +1,112 @@
+import type { AvatarAudioSource } from './audioSources';
+import type { EmotionType } from './emotionController';
+import type { GazeDirection, GazeMode } from './gazeController';
+import type { CameraShot } from './cameraDirector';
+
+/**
+ * Link between the control page and /overlay pages in other tabs
+ *
+ * The control page runs the conversation and plays the agent's audio; the
+ * overlay only renders the avatar (e.g. as an OBS browser source). Over a
+ * BroadcastChannel the control page forwards every avatar trigger plus the
+ * agent's audio spectrum each frame, which BroadcastAudioSource feeds to the
+ * overlay's lip sync.
+ *
+ * Overlays announce themselves with 'hello' on load and every few seconds;
+ * the control page only streams audio while an overlay is listening.
+ * Any page on the same origin can post these messages to drive an overlay.
+ */
+
+export const DEFAULT_OVERLAY_CHANNEL = 'mochi-live-overlay';
+
+// How often overlays announce themselves, and how long the control page waits before giving up on them
+export const OVERLAY_HELLO_INTERVAL_MS = 2000;
+export const OVERLAY_TIMEOUT_MS = 5000;
+
+export type OverlayMessage =
+  | { type: 'hello' }
+  | { type: 'model'; url: string }
+  | { type: 'animation'; animation: string; timestamp: number }
+  | { type: 'transcript'; text: string; timestamp: number }
+  | { type: 'emotion'; emotion: EmotionType; intensity: number; durationMs?: number; timestamp: number }
+  | { type: 'gaze'; mode: GazeMode; direction?: GazeDirection; durationMs?: number; timestamp: number }
+  | { type: 'camera'; shot: CameraShot; cut?: boolean; timestamp: number }
+  | { type: 'thinking'; isThinking: boolean }
+  | { type: 'audio'; data: Uint8Array | null; speaking: boolean; sampleRate?: number; fftSize?: number };
+
+/**
+ * Typed wrapper around a BroadcastChannel
+ */
+export class OverlayChannel {
+  private readonly channel: BroadcastChannel;
+
+  constructor(name: string = DEFAULT_OVERLAY_CHANNEL) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  post(message: OverlayMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  /**
+   * Listen for messages; returns a function that removes the listener
+   */
+  subscribe(handler: (message: OverlayMessage) => void): () => void {
+    const listener = (event: MessageEvent<OverlayMessage>) => handler(event.data);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Lip syncs to audio frames broadcast by the control page
+ */
+export class BroadcastAudioSource implements AvatarAudioSource {
+  readonly kind = 'broadcast';
+  private frame: Extract<OverlayMessage, { type: 'audio' }> | null = null;
+  private receivedAt: number = -Infinity;
+
+  // Frames older than this mean the control page went away
+  private readonly staleMs = 500;
+
+  /**
+   * Store the latest frame from an 'audio' message
+   */
+  pushFrame(frame: Extract<OverlayMessage, { type: 'audio' }>): void {
+    this.frame = frame;
+    this.receivedAt = performance.now();
+  }
+
+  isSpeaking(): boolean {
+    return this.isFresh() && (this.frame?.speaking ?? false);
+  }
+
+  getOutputByteFrequencyData(): Uint8Array | undefined {
+    return this.isFresh() ? this.frame?.data ?? undefined : undefined;
+  }
+
+  getSampleRate(): number | undefined {
+    return this.frame?.sampleRate;
+  }
+
+  getFftSize(): number | undefined {
+    return this.frame?.fftSize;
+  }
+
+  captureStream(): MediaStream | undefined {
+    // Only the spectrum is broadcast, not the audio itself
+    return undefined;
+  }
+
+  dispose(): void {
+    this.frame = null;
+  }
+
+  private isFresh(): boolean {
+    return performance.now() - this.receivedAt < this.staleMs;
+  }
+}
@@ -0,0 +1,267 @@
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+import { DEFAULT_SAMPLE_RATE } from './frequencyToViseme';
+import { BoneOffsets, getForwardSign } from './boneOffsets';
+
+/**
+ * ProsodyController turns the agent's speech rhythm into body language
+ *
+ * Features:
+ * - Emphasis beats: loudness peaks above the running level trigger a small
+ *   head nod, and the stronger ones a forearm beat (alternating hands)
+ * - Pitch rises: a jump above the speaker's running pitch raises the brows
+ *   and lifts the head slightly
+ * - Phrase boundaries: a pause after a phrase settles the head with a slow
+ *   nod and drops the shoulders; the next phrase starts with a small lift
+ *
+ * Motion is multiplied onto the current pose, so call update every frame
+ * after the mixer and gaze controller, before vrm.update. Arm and shoulder
+ * beats follow the base loop's upper-body weight so they don't fight gestures.
+ */
+
+export interface ProsodyFrame {
+  intensity: number;               // 0-1 speech intensity from the viseme analyzer
+  frequencyData?: Uint8Array;
+  sampleRate?: number;
+  fftSize?: number;
+}
+
+type BeatKind = 'nod' | 'lift' | 'settle' | 'brow' | 'hand' | 'shrug';
+
+interface Beat {
+  kind: BeatKind;
+  elapsed: number;   // ms
+  duration: number;  // ms
+  amplitude: number; // 0-1
+  side: 1 | -1;      // 1 = avatar's left
+}
+
+const DEG = Math.PI / 180;
+
+// Custom brow expressions some models ship; otherwise a little of 'surprised' is used
+const BROW_EXPRESSIONS = ['browInnerUp', 'browRaise', 'browUp', 'BrowsUp'];
+
+/**
+ * Rough fundamental frequency: the strongest bin in the voice range, refined
+ * by parabolic interpolation. Returns null when nothing stands out.
+ */
+function estimatePitch(frequencyData: Uint8Array, sampleRate: number, fftSize: number): number | null {
+  const binWidth = sampleRate / fftSize;
+  const startBin = Math.max(1, Math.floor(75 / binWidth));
+  const endBin = Math.min(frequencyData.length - 2, Math.ceil(400 / binWidth));
+
+  let peakBin = -1;
+  let peakValue = 0;
+  for (let i = startBin; i <= endBin; i++) {
+    if (frequencyData[i] > peakValue) {
+      peakValue = frequencyData[i];
+      peakBin = i;
+    }
+  }
+  if (peakBin < 0 || peakValue < 80) return null;
+
+  const left = frequencyData[peakBin - 1];
+  const right = frequencyData[peakBin + 1];
+  const denominator = left - 2 * peakValue + right;
+  const shift = denominator !== 0 ? 0.5 * (left - right) / denominator : 0;
+  return (peakBin + shift) * binWidth;
+}
+
+export class ProsodyController {
+  private readonly vrm: VRM;
+  private readonly bones: BoneOffsets;
+  private readonly browExpression: { name: string; scale: number };
+  private beats: Beat[] = [];
+  private browWeight: number = 0;
+
+  // Loudness tracking
+  private fastLevel: number = 0;
+  private slowLevel: number = 0;
+  private peakArmed: boolean = true;
+  private sinceBeat: number = Infinity;     // ms
+  private nextHandSide: 1 | -1 = 1;
+
+  // Pitch tracking, in semitones relative to 100 Hz
+  private pitchMean: number | null = null;
+  private sinceBrow: number = Infinity;     // ms
+
+  // Phrase tracking
+  private phraseSpeech: number = 0;         // ms of speech in the current phrase
+  private silence: number = 0;              // ms since speech stopped
+
+  // Configuration
+  private readonly fastRate = 25;           // 1/s, loudness envelope follow rate
+  private readonly slowRate = 1.5;          // 1/s, running level follow rate
+  private readonly peakRatio = 1.35;        // Envelope over running level that counts as a peak
+  private readonly minPeakLevel = 0.25;
+  private readonly minBeatInterval = 280;   // ms
+  private readonly speechThreshold = 0.1;
+  private readonly pitchRiseSemitones = 2.5;
+  private readonly pitchMeanRate = 0.6;     // 1/s
+  private readonly minBrowInterval = 900;   // ms
+  private readonly phrasePause = 350;       // ms of silence that ends a phrase
+  private readonly minPhraseLength = 800;   // ms of speech before a pause counts as a boundary
+  private readonly nodAngle = 4 * DEG;
+  private readonly liftAngle = 2.5 * DEG;
+  private readonly settleAngle = 2 * DEG;
+  private readonly handAngle = 8 * DEG;
+  private readonly shrugAngle = 2.5 * DEG;
+  private readonly neckShare = 0.4;
+
+  constructor(vrm: VRM) {
+    this.vrm = vrm;
+    this.bones = new BoneOffsets(vrm);
+    const custom = BROW_EXPRESSIONS.find(name => vrm.expressionManager?.getExpression(name));
+    this.browExpression = custom ? { name: custom, scale: 1 } : { name: 'surprised', scale: 0.3 };
+  }
+
+  /**
+   * Detect prosody events in this frame's audio and apply the active beats.
+   *
+   * @param upperBodyWeight How much of the upper body the base loop owns (0-1)
+   */
+  update(deltaMs: number, frame: ProsodyFrame, upperBodyWeight: number = 1): void {
+    this.detect(deltaMs, frame);
+
+    this.browWeight = 0;
+    this.beats = this.beats.filter(beat => {
+      beat.elapsed += deltaMs;
+      return beat.elapsed < beat.duration;
+    });
+    this.beats.forEach(beat => this.applyBeat(beat, upperBodyWeight));
+  }
+
+  /**
+   * Expression weights to add on top of the emotion expressions this frame
+   */
+  getExpressionWeights(): Record<string, number> {
+    // Always reported, so a custom brow expression is set back to 0 after a beat
+    return { [this.browExpression.name]: this.browWeight * this.browExpression.scale };
+  }
+
+  reset(): void {
+    this.beats = [];
+    this.browWeight = 0;
+    this.fastLevel = 0;
+    this.slowLevel = 0;
+    this.peakArmed = true;
+    this.pitchMean = null;
+    this.phraseSpeech = 0;
+    this.silence = 0;
+  }
+
+  private detect(deltaMs: number, frame: ProsodyFrame): void {
+    const deltaSeconds = deltaMs / 1000;
+    const speaking = frame.intensity > this.speechThreshold;
+    this.sinceBeat += deltaMs;
+    this.sinceBrow += deltaMs;
+
+    // Phrase boundaries
+    if (speaking) {
+      if (this.silence >= this.phrasePause) {
+        this.addBeat('lift', 400, 0.6);
+        this.addBeat('shrug', 500, 0.5);
+      }
+      this.silence = 0;
+      this.phraseSpeech += deltaMs;
+    } else {
+      this.silence += deltaMs;
+      if (this.silence >= this.phrasePause && this.phraseSpeech >= this.minPhraseLength) {
+        this.addBeat('settle', 800, 1);
+        this.addBeat('shrug', 700, -0.6);
+        this.phraseSpeech = 0;
+      } else if (this.silence >= this.phrasePause) {
+        this.phraseSpeech = 0;
+      }
+    }
+
+    // Loudness peaks
+    this.fastLevel += (frame.intensity - this.fastLevel) * (1 - Math.exp(-this.fastRate * deltaSeconds));
+    this.slowLevel += (frame.intensity - this.slowLevel) * (1 - Math.exp(-this.slowRate * deltaSeconds));
+
+    if (this.fastLevel < this.slowLevel * 1.1) {
+      this.peakArmed = true;
+    } else if (
+      this.peakArmed &&
+      this.fastLevel > this.minPeakLevel &&
+      this.fastLevel > this.slowLevel * this.peakRatio &&
+      this.sinceBeat >= this.minBeatInterval
+    ) {
+      const strength = Math.min(1, (this.fastLevel - this.slowLevel) / 0.4);
+      this.peakArmed = false;
+      this.sinceBeat = 0;
+      this.addBeat('nod', 350, 0.4 + 0.6 * strength);
+      if (strength > 0.5) {
+        this.addBeat('hand', 550, strength, this.nextHandSide);
+        this.nextHandSide = this.nextHandSide === 1 ? -1 : 1;
+      }
+    }
+
+    // Pitch rises
+    if (!speaking || !frame.frequencyData) return;
+    const sampleRate = frame.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    const fftSize = frame.fftSize ?? frame.frequencyData.length * 2;
+    const pitch = estimatePitch(frame.frequencyData, sampleRate, fftSize);
+    if (pitch === null) return;
+
+    const semitones = 12 * Math.log2(pitch / 100);
+    if (this.pitchMean === null) {
+      this.pitchMean = semitones;
+      return;
+    }
+
+    if (semitones - this.pitchMean > this.pitchRiseSemitones && this.sinceBrow >= this.minBrowInterval) {
+      this.sinceBrow = 0;
+      this.addBeat('brow', 700, 1);
+      this.addBeat('lift', 500, 0.5);
+    }
+    this.pitchMean += (semitones - this.pitchMean) * (1 - Math.exp(-this.pitchMeanRate * deltaSeconds));
+  }
+
+  private addBeat(kind: BeatKind, duration: number, amplitude: number, side: 1 | -1 = 1): void {
+    this.beats.push({ kind, elapsed: 0, duration, amplitude, side });
+  }
+
+  private applyBeat(beat: Beat, upperBodyWeight: number): void {
+    // Rise and fall over the beat
+    const envelope = Math.sin(Math.PI * Math.min(1, beat.elapsed / beat.duration));
+    const value = envelope * beat.amplitude;
+    const sign = getForwardSign(this.vrm);
+
+    switch (beat.kind) {
+      case 'nod':
+        this.rotateHead(sign * value * this.nodAngle);
+        break;
+      case 'settle':
+        this.rotateHead(sign * value * this.settleAngle);
+        break;
+      case 'lift':
+        this.rotateHead(-sign * value * this.liftAngle);
+        break;
+      case 'brow':
+        this.browWeight = Math.max(this.browWeight, value);
+        break;
+      case 'hand': {
+        // Flex the elbow forward; the axis is the same for both facings
+        const bone: VRMHumanBoneName = beat.side === 1 ? 'leftLowerArm' : 'rightLowerArm';
+        this.bones.rotate(bone, 0, -beat.side * value * this.handAngle * upperBodyWeight, 0);
+        break;
+      }
+      case 'shrug': {
+        // Positive amplitude raises the shoulders, negative drops them
+        const angle = sign * value * this.shrugAngle * upperBodyWeight;
+        this.bones.rotate('leftShoulder', 0, 0, angle);
+        this.bones.rotate('rightShoulder', 0, 0, -angle);
+        break;
+      }
+    }
+  }
+
+  private rotateHead(pitch: number): void {
+    if (this.vrm.humanoid?.getNormalizedBoneNode('neck')) {
+      this.bones.rotate('neck', pitch * this.neckShare, 0, 0);
+      this.bones.rotate('head', pitch * (1 - this.neckShare), 0, 0);
+    } else {
+      this.bones.rotate('head', pitch, 0, 0);
+    }
+  }
+}
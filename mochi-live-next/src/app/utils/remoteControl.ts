@@ -0,0 +1,144 @@
+/**
+ * Remote control of the avatar by external tools (stream decks, chat bots, scripts)
+ *
+ * Features:
+ * - Commands mirror the agent's client tools: animation, emotion, gaze, camera,
+ *   plus 'say', which has the agent speak a line
+ * - Commands are posted to the relay (npm run remote-relay) directly or through
+ *   the /api/remote route, and the relay pushes them to every connected avatar
+ * - Sending commands can require a shared token; receiving them does not
+ * - The avatar reconnects to the relay when it goes away
+ *
+ * Env vars (client):
+ * - NEXT_PUBLIC_REMOTE_CONTROL_URL  Relay websocket, e.g. ws://localhost:8767
+ *                                   (remote control is off when unset)
+ *
+ * Env vars (server, /api/remote):
+ * - REMOTE_CONTROL_RELAY_URL  Relay address (default http://localhost:8767)
+ * - REMOTE_CONTROL_TOKEN      Token commands must carry as "Authorization: Bearer <token>"
+ */
+
+export type RemoteCommand =
+  | { type: 'animation'; animation: string }
+  | { type: 'emotion'; emotion: string; intensity?: number; duration?: number }
+  | { type: 'gaze'; target: string; duration?: number }
+  | { type: 'camera'; shot: string; cut?: boolean }
+  | { type: 'say'; text: string };
+
+export const REMOTE_COMMAND_TYPES: RemoteCommand['type'][] = ['animation', 'emotion', 'gaze', 'camera', 'say'];
+
+export const REMOTE_ROUTE = '/api/remote';
+
+// Path avatars connect to on the relay
+export const REMOTE_AVATAR_PATH = '/avatar';
+
+/**
+ * Read the relay URL avatars connect to, if remote control is enabled
+ */
+export function getRemoteControlUrl(): string | undefined {
+  return process.env.NEXT_PUBLIC_REMOTE_CONTROL_URL || undefined;
+}
+
+/**
+ * Check the shape of a command from an untrusted source. Names (animation ids,
+ * emotions, ...) are resolved by the avatar, like the agent's tool calls.
+ * Returns an error message when the command is invalid.
+ */
+export function parseRemoteCommand(value: unknown): RemoteCommand | string {
+  if (typeof value !== 'object' || value === null) return 'Command must be a JSON object';
+  const command = value as Record<string, unknown>;
+
+  const isString = (key: string) => typeof command[key] === 'string' && (command[key] as string).trim() !== '';
+  const isOptional = (key: string, type: 'number' | 'boolean') => command[key] === undefined || typeof command[key] === type;
+
+  switch (command.type) {
+    case 'animation':
+      if (!isString('animation')) return '"animation" is required';
+      return { type: 'animation', animation: command.animation as string };
+    case 'emotion':
+      if (!isString('emotion')) return '"emotion" is required';
+      if (!isOptional('intensity', 'number') || !isOptional('duration', 'number')) return '"intensity" and "duration" must be numbers';
+      return {
+        type: 'emotion',
+        emotion: command.emotion as string,
+        intensity: command.intensity as number | undefined,
+        duration: command.duration as number | undefined,
+      };
+    case 'gaze':
+      if (!isString('target')) return '"target" is required';
+      if (!isOptional('duration', 'number')) return '"duration" must be a number';
+      return { type: 'gaze', target: command.target as string, duration: command.duration as number | undefined };
+    case 'camera':
+      if (!isString('shot')) return '"shot" is required';
+      if (!isOptional('cut', 'boolean')) return '"cut" must be a boolean';
+      return { type: 'camera', shot: command.shot as string, cut: command.cut as boolean | undefined };
+    case 'say':
+      if (!isString('text')) return '"text" is required';
+      return { type: 'say', text: command.text as string };
+    default:
+      return `Unknown command type. Available types: ${REMOTE_COMMAND_TYPES.join(', ')}`;
+  }
+}
+
+/**
+ * Receives commands from the relay, reconnecting with backoff
+ */
+export class RemoteControlClient {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelayMs: number;
+  private disposed = false;
+
+  // Configuration
+  private readonly minReconnectDelayMs = 1000;
+  private readonly maxReconnectDelayMs = 30000;
+
+  constructor(
+    private readonly url: string,
+    private readonly onCommand: (command: RemoteCommand) => void,
+  ) {
+    this.reconnectDelayMs = this.minReconnectDelayMs;
+    this.connect();
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(new URL(REMOTE_AVATAR_PATH, this.url));
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      console.log('🎛️ Remote control connected');
+      this.reconnectDelayMs = this.minReconnectDelayMs;
+    });
+
+    socket.addEventListener('message', (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+
+      let command: RemoteCommand | string;
+      try {
+        command = parseRemoteCommand(JSON.parse(event.data));
+      } catch {
+        command = 'Command is not valid JSON';
+      }
+
+      if (typeof command === 'string') {
+        console.warn(`⚠️ Ignoring remote command: ${command}`);
+        return;
+      }
+      this.onCommand(command);
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.disposed) return;
+      console.log(`🔌 Remote control disconnected, retrying in ${this.reconnectDelayMs / 1000}s`);
+      this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelayMs);
+      this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, this.maxReconnectDelayMs);
+    });
+  }
+}
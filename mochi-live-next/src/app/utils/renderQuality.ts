@@ -0,0 +1,230 @@
+import type * as THREE from 'three';
+
+/**
+ * Render quality that follows the measured frame time, and frame statistics
+ *
+ * Features:
+ * - Lowers the pixel ratio while frames take longer than the budget, and raises
+ *   it again once frames keep up with the display
+ * - The budget is the display's refresh period as observed from the shortest
+ *   recent frame intervals, so 30 Hz displays and browsers that cap the frame
+ *   rate aren't mistaken for a slow device
+ * - A resolution that failed to keep up is not retried, so the quality doesn't
+ *   flip back and forth
+ * - Remembers the settled pixel ratio, and whether this device can afford
+ *   antialiasing, for the next session (antialiasing can only be chosen when
+ *   the renderer is created)
+ * - Frame rate, frame time against the budget and draw calls for a stats overlay
+ */
+
+export interface RenderQualitySettings {
+  pixelRatio: number;
+  antialias: boolean;
+}
+
+export interface RenderStatsSample {
+  fps: number;
+  frameMs: number;   // Time spent producing a frame (CPU side)
+  budgetMs: number;
+  drawCalls: number;
+  triangles: number;
+}
+
+const STORAGE_KEY = 'mochi-live.renderQuality';
+
+// Time per frame at 60 fps, assumed until the refresh rate has been observed
+const FRAME_BUDGET_MS = 1000 / 60;
+
+/**
+ * Load the quality this device settled on last time, if any
+ */
+export function loadRenderQuality(): RenderQualitySettings | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<RenderQualitySettings>;
+    if (typeof parsed.pixelRatio !== 'number' || typeof parsed.antialias !== 'boolean') return null;
+    return { pixelRatio: parsed.pixelRatio, antialias: parsed.antialias };
+  } catch (error) {
+    console.warn('⚠️ Failed to load render quality:', error);
+    return null;
+  }
+}
+
+function saveRenderQuality(settings: RenderQualitySettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('⚠️ Failed to save render quality:', error);
+  }
+}
+
+/**
+ * Adjusts the renderer's pixel ratio from frame intervals
+ */
+export class AdaptiveQuality {
+  private readonly renderer: THREE.WebGLRenderer;
+  private readonly antialias: boolean;
+  private pixelRatio: number;
+  private ceiling: number;           // Highest pixel ratio still worth trying
+  private raisedFrom: number | null = null; // Pixel ratio before the last raise, until it proves itself
+  private budgetMs: number = FRAME_BUDGET_MS; // Observed refresh period
+  private readonly recentIntervals: number[] = [];
+  private averageMs: number = FRAME_BUDGET_MS;
+  private slowMs: number = 0;        // How long frames have been over budget
+  private fastMs: number = 0;        // How long frames have kept up
+
+  // Configuration
+  private readonly minPixelRatio = 0.75;
+  private readonly maxPixelRatio = 2;
+  private readonly step = 0.25;
+  private readonly smoothing = 0.05;        // Weight of each frame in the average
+  private readonly slowFactor = 1.35;       // Average over budget × this counts as slow (~45 fps at 60 Hz)
+  private readonly fastFactor = 1.1;        // Average under budget × this keeps up with the display
+  private readonly lowerAfterMs = 2000;
+  private readonly raiseAfterMs = 8000;
+  private readonly maxIntervalMs = 250;     // Longer gaps are stalls (loading, GC), not render cost
+  private readonly refreshWindow = 300;     // Frames the refresh period is observed over
+  private readonly minBudgetMs = 1000 / 240;
+
+  constructor(renderer: THREE.WebGLRenderer, antialias: boolean) {
+    this.renderer = renderer;
+    this.antialias = antialias;
+    this.ceiling = Math.min(window.devicePixelRatio, this.maxPixelRatio);
+
+    const stored = loadRenderQuality();
+    this.pixelRatio = Math.max(this.minPixelRatio, Math.min(this.ceiling, stored?.pixelRatio ?? this.ceiling));
+    this.renderer.setPixelRatio(this.pixelRatio);
+  }
+
+  /**
+   * Whether to create the renderer with antialiasing, from the last session
+   */
+  static shouldAntialias(): boolean {
+    return loadRenderQuality()?.antialias ?? true;
+  }
+
+  getPixelRatio(): number {
+    return this.pixelRatio;
+  }
+
+  /**
+   * Time per frame at the display's refresh rate
+   */
+  getBudgetMs(): number {
+    return this.budgetMs;
+  }
+
+  /**
+   * Record the interval between two rendered frames
+   */
+  update(intervalMs: number): void {
+    if (intervalMs > this.maxIntervalMs) return;
+
+    // Frames can't come faster than the display refreshes, however cheap they are
+    this.recentIntervals.push(intervalMs);
+    if (this.recentIntervals.length > this.refreshWindow) this.recentIntervals.shift();
+    this.budgetMs = Math.max(this.minBudgetMs, Math.min(...this.recentIntervals));
+
+    this.averageMs += (intervalMs - this.averageMs) * this.smoothing;
+
+    if (this.averageMs > this.budgetMs * this.slowFactor) {
+      this.slowMs += intervalMs;
+      this.fastMs = 0;
+    } else if (this.averageMs < this.budgetMs * this.fastFactor) {
+      this.fastMs += intervalMs;
+      this.slowMs = 0;
+    } else {
+      this.slowMs = 0;
+      this.fastMs = 0;
+    }
+
+    if (this.slowMs >= this.lowerAfterMs) {
+      this.lower();
+    } else if (this.fastMs >= this.raiseAfterMs) {
+      this.raise();
+    }
+  }
+
+  private lower(): void {
+    // The last raise didn't hold up: stay below it from now on
+    if (this.raisedFrom !== null) {
+      this.ceiling = this.raisedFrom;
+      this.raisedFrom = null;
+    }
+
+    if (this.pixelRatio <= this.minPixelRatio) {
+      // Already as low as it goes; next time start without antialiasing
+      this.slowMs = 0;
+      if (this.antialias) this.save(false);
+      return;
+    }
+
+    this.setPixelRatio(Math.max(this.minPixelRatio, this.pixelRatio - this.step));
+    console.log(`📉 Frames over budget (${this.averageMs.toFixed(1)}ms), pixel ratio → ${this.pixelRatio}`);
+  }
+
+  private raise(): void {
+    // The current pixel ratio has held up
+    this.fastMs = 0;
+    this.raisedFrom = null;
+    if (this.pixelRatio >= this.ceiling) {
+      // Keeping up at full resolution: antialiasing is affordable next time
+      if (!this.antialias) this.save(true);
+      return;
+    }
+
+    this.raisedFrom = this.pixelRatio;
+    this.setPixelRatio(Math.min(this.ceiling, this.pixelRatio + this.step));
+    console.log(`📈 Frames within budget, pixel ratio → ${this.pixelRatio}`);
+  }
+
+  private setPixelRatio(pixelRatio: number): void {
+    this.pixelRatio = pixelRatio;
+    this.slowMs = 0;
+    this.fastMs = 0;
+    this.averageMs = this.budgetMs;
+    this.renderer.setPixelRatio(pixelRatio);
+    this.save(this.antialias);
+  }
+
+  private save(antialias: boolean): void {
+    saveRenderQuality({ pixelRatio: this.pixelRatio, antialias });
+  }
+}
+
+/**
+ * Averages frame statistics over short windows
+ */
+export class RenderStats {
+  private frames: number = 0;
+  private elapsedMs: number = 0;
+  private workMs: number = 0;
+
+  // Configuration
+  private readonly windowMs = 500;
+
+  /**
+   * Record a rendered frame; returns a sample at the end of each window
+   */
+  update(intervalMs: number | null, workMs: number, budgetMs: number, info: THREE.WebGLInfo): RenderStatsSample | null {
+    if (intervalMs === null) return null;
+
+    this.frames++;
+    this.elapsedMs += intervalMs;
+    this.workMs += workMs;
+    if (this.elapsedMs < this.windowMs) return null;
+
+    const sample = {
+      fps: (this.frames * 1000) / this.elapsedMs,
+      frameMs: this.workMs / this.frames,
+      budgetMs,
+      drawCalls: info.render.calls,
+      triangles: info.render.triangles,
+    };
+    this.frames = 0;
+    this.elapsedMs = 0;
+    this.workMs = 0;
+    return sample;
+  }
+}
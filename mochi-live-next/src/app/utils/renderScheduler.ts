@@ -0,0 +1,86 @@
+/**
+ * Frame scheduling for the VRM render loop
+ *
+ * Features:
+ * - Pauses while the page is hidden, and drops the hidden time on return so
+ *   animations don't jump ahead
+ * - Renders at a lower frame rate while the scene is idle
+ * - Stops for good on dispose, so an unmounted scene doesn't keep rendering
+ */
+export class RenderScheduler {
+  private frameId: number | null = null;
+  private lastFrameTime: number | null = null;
+  private idle: boolean = false;
+  private started: boolean = false;
+
+  // Configuration
+  private readonly idleFps = 30;
+  private readonly frameTolerance = 0.9; // rAF timestamps jitter around the display refresh
+
+  /**
+   * @param onFrame Called for each rendered frame with the time since the
+   *                previous one (null after a pause or a frame rate change)
+   * @param onResume Called when the page becomes visible again, before the next frame
+   */
+  constructor(
+    private readonly onFrame: (intervalMs: number | null) => void,
+    private readonly onResume?: () => void
+  ) {}
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    if (!document.hidden) this.requestFrame();
+  }
+
+  /**
+   * Switch between the full and the idle frame rate
+   */
+  setIdle(idle: boolean): void {
+    if (idle === this.idle) return;
+    this.idle = idle;
+    this.lastFrameTime = null;
+  }
+
+  isIdle(): boolean {
+    return this.idle;
+  }
+
+  dispose(): void {
+    this.started = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.cancelFrame();
+  }
+
+  private requestFrame(): void {
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  private cancelFrame(): void {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+  }
+
+  private tick = (now: number) => {
+    this.requestFrame();
+
+    const intervalMs = this.lastFrameTime === null ? null : now - this.lastFrameTime;
+    if (this.idle && intervalMs !== null && intervalMs < (1000 / this.idleFps) * this.frameTolerance) return;
+
+    this.lastFrameTime = now;
+    this.onFrame(intervalMs);
+  };
+
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      console.log('⏸️ Rendering paused while the page is hidden');
+      this.cancelFrame();
+    } else if (this.frameId === null) {
+      console.log('▶️ Rendering resumed');
+      this.lastFrameTime = null;
+      this.onResume?.();
+      this.requestFrame();
+    }
+  };
+}
@@ -0,0 +1,264 @@
+import * as THREE from 'three';
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+
+/**
+ * Scene environment: background, lighting and shadows around the avatar
+ *
+ * Features:
+ * - Backgrounds: solid color, image, equirectangular HDRI (.hdr/.exr, also
+ *   used for image-based lighting), a chroma-key green screen, or transparent
+ *   for compositing (the renderer has an alpha channel)
+ * - Lighting presets (studio, sunset, neon) built from an ambient, key and rim light
+ * - Soft shadows from the key light onto an optional ground plane that only
+ *   shows the shadow, so it works over any background
+ * - Settings persist in localStorage
+ */
+
+export type BackgroundSettings =
+  | { type: 'color'; color: string }
+  | { type: 'image'; url: string }
+  | { type: 'hdri'; url: string; format?: 'hdr' | 'exr' } // Format defaults to the URL's extension
+  | { type: 'chromaKey'; color: string }
+  | { type: 'transparent' };
+
+export type LightingPreset = 'studio' | 'sunset' | 'neon';
+
+export const LIGHTING_PRESETS: LightingPreset[] = ['studio', 'sunset', 'neon'];
+
+export interface EnvironmentSettings {
+  background: BackgroundSettings;
+  lighting: LightingPreset;
+  shadows: boolean;
+  ground: boolean;
+}
+
+export const DEFAULT_BACKGROUND_COLOR = '#212121';
+
+export const CHROMA_KEY_GREEN = '#00b140';
+
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  background: { type: 'color', color: DEFAULT_BACKGROUND_COLOR },
+  lighting: 'studio',
+  shadows: false,
+  ground: false,
+};
+
+interface LightDefinition {
+  color: number;
+  intensity: number;
+  position: [number, number, number];
+}
+
+interface LightingDefinition {
+  ambient: { color: number; intensity: number };
+  key: LightDefinition;
+  rim: LightDefinition;
+}
+
+const LIGHTING: Record<LightingPreset, LightingDefinition> = {
+  studio: {
+    ambient: { color: 0xffffff, intensity: 0.6 },
+    key: { color: 0xffffff, intensity: 0.8, position: [2, 2, 2] },
+    rim: { color: 0xffffff, intensity: 0.4, position: [-2, 2, -2] },
+  },
+  sunset: {
+    ambient: { color: 0xffd6b0, intensity: 0.35 },
+    key: { color: 0xff9a4d, intensity: 1.3, position: [3, 1, 1.5] },
+    rim: { color: 0x6a7bff, intensity: 0.6, position: [-2, 2, -2] },
+  },
+  neon: {
+    ambient: { color: 0x4020ff, intensity: 0.25 },
+    key: { color: 0xff2fd0, intensity: 1.1, position: [2, 2, 1.5] },
+    rim: { color: 0x00e5ff, intensity: 1.3, position: [-2, 2, -1.5] },
+  },
+};
+
+const STORAGE_KEY = 'mochi-live.environment';
+
+/**
+ * Parse a background from a short string, e.g. a query parameter:
+ * "transparent", "green", a hex color ("1e1e1e" or "#1e1e1e"), or an image/HDRI URL
+ */
+export function parseBackground(value: string): BackgroundSettings | undefined {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (lower === 'transparent' || lower === 'none') return { type: 'transparent' };
+  if (lower === 'green' || lower === 'chromakey') return { type: 'chromaKey', color: CHROMA_KEY_GREEN };
+  if (/^#?[0-9a-f]{6}$/.test(lower)) return { type: 'color', color: lower.startsWith('#') ? lower : `#${lower}` };
+  if (/^(https?:|\/)/.test(trimmed)) {
+    return /\.(hdr|exr)([?#]|$)/.test(lower) ? { type: 'hdri', url: trimmed } : { type: 'image', url: trimmed };
+  }
+  return undefined;
+}
+
+export function loadEnvironmentSettings(): EnvironmentSettings {
+  if (typeof window === 'undefined') return DEFAULT_ENVIRONMENT;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_ENVIRONMENT, ...JSON.parse(stored) } : DEFAULT_ENVIRONMENT;
+  } catch (error) {
+    console.error('Failed to read environment settings:', error);
+    return DEFAULT_ENVIRONMENT;
+  }
+}
+
+/**
+ * Persist the settings. Backgrounds from local files (object URLs) don't survive
+ * a reload, so those are stored as the default background.
+ */
+export function saveEnvironmentSettings(settings: EnvironmentSettings): void {
+  const background = 'url' in settings.background && settings.background.url.startsWith('blob:')
+    ? DEFAULT_ENVIRONMENT.background
+    : settings.background;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, background }));
+}
+
+/**
+ * Owns the background, lights and ground plane of a scene
+ */
+export class SceneEnvironment {
+  private readonly scene: THREE.Scene;
+  private readonly renderer: THREE.WebGLRenderer;
+  private readonly pmrem: THREE.PMREMGenerator;
+  private readonly ambient = new THREE.AmbientLight();
+  private readonly key = new THREE.DirectionalLight();
+  private readonly rim = new THREE.DirectionalLight();
+  private readonly ground: THREE.Mesh<THREE.PlaneGeometry, THREE.ShadowMaterial>;
+  private backgroundTexture: THREE.Texture | null = null;
+  private environmentTarget: THREE.WebGLRenderTarget | null = null;
+  private backgroundKey: string = '';
+  private applyToken: number = 0;
+
+  constructor(scene: THREE.Scene, renderer: THREE.WebGLRenderer) {
+    this.scene = scene;
+    this.renderer = renderer;
+    this.pmrem = new THREE.PMREMGenerator(renderer);
+
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+    // Shadow camera sized to cover the avatar and the ground around its feet
+    this.key.shadow.mapSize.set(2048, 2048);
+    this.key.shadow.camera.left = -1.5;
+    this.key.shadow.camera.right = 1.5;
+    this.key.shadow.camera.top = 2.5;
+    this.key.shadow.camera.bottom = -1;
+    this.key.shadow.camera.near = 0.1;
+    this.key.shadow.camera.far = 10;
+    this.key.shadow.bias = -0.0005;
+
+    this.ground = new THREE.Mesh(
+      new THREE.PlaneGeometry(20, 20),
+      new THREE.ShadowMaterial({ opacity: 0.35 })
+    );
+    this.ground.rotation.x = -Math.PI / 2;
+    this.ground.receiveShadow = true;
+
+    scene.add(this.ambient, this.key, this.key.target, this.rim, this.ground);
+  }
+
+  /**
+   * Apply settings. Resolves once the background has loaded; a newer call
+   * supersedes an older one still loading.
+   */
+  async apply(settings: EnvironmentSettings): Promise<void> {
+    const token = ++this.applyToken;
+    const chromaKey = settings.background.type === 'chromaKey';
+
+    this.applyLighting(LIGHTING[settings.lighting]);
+
+    // A keyed background must stay a flat color, so no shadows on the floor
+    const shadows = settings.shadows && !chromaKey;
+    this.renderer.shadowMap.enabled = shadows;
+    this.key.castShadow = shadows;
+    this.ground.visible = settings.ground && !chromaKey;
+
+    const backgroundKey = JSON.stringify(settings.background);
+    if (backgroundKey === this.backgroundKey) return;
+
+    const background = settings.background;
+    switch (background.type) {
+      case 'color':
+      case 'chromaKey':
+        this.setBackground(new THREE.Color(background.color), null, null);
+        break;
+      case 'transparent':
+        this.setBackground(null, null, null);
+        break;
+      case 'image': {
+        const texture = await new THREE.TextureLoader().loadAsync(background.url);
+        if (token !== this.applyToken) {
+          texture.dispose();
+          return;
+        }
+        texture.colorSpace = THREE.SRGBColorSpace;
+        this.setBackground(texture, texture, null);
+        break;
+      }
+      case 'hdri': {
+        const isExr = (background.format ?? background.url.split(/[?#]/)[0].split('.').pop()?.toLowerCase()) === 'exr';
+        const texture = await (isExr ? new EXRLoader() : new HDRLoader()).loadAsync(background.url);
+        if (token !== this.applyToken) {
+          texture.dispose();
+          return;
+        }
+        texture.mapping = THREE.EquirectangularReflectionMapping;
+        this.setBackground(texture, texture, this.pmrem.fromEquirectangular(texture));
+        break;
+      }
+    }
+
+    this.backgroundKey = backgroundKey;
+    console.log(`🌅 Environment: ${background.type} background, ${settings.lighting} lighting${shadows ? ', shadows' : ''}`);
+  }
+
+  /**
+   * Let every mesh of a model cast shadows
+   */
+  setShadowCaster(object: THREE.Object3D): void {
+    object.traverse((child) => {
+      if ((child as THREE.Mesh).isMesh) {
+        child.castShadow = true;
+      }
+    });
+  }
+
+  dispose(): void {
+    this.setBackground(null, null, null);
+    this.scene.remove(this.ambient, this.key, this.key.target, this.rim, this.ground);
+    this.ground.geometry.dispose();
+    this.ground.material.dispose();
+    this.key.dispose();
+    this.rim.dispose();
+    this.pmrem.dispose();
+  }
+
+  private applyLighting(lighting: LightingDefinition): void {
+    this.ambient.color.setHex(lighting.ambient.color);
+    this.ambient.intensity = lighting.ambient.intensity;
+
+    for (const [light, definition] of [[this.key, lighting.key], [this.rim, lighting.rim]] as const) {
+      light.color.setHex(definition.color);
+      light.intensity = definition.intensity;
+      light.position.set(...definition.position);
+    }
+  }
+
+  /**
+   * Swap the background and image-based lighting, releasing the previous textures
+   */
+  private setBackground(
+    background: THREE.Color | THREE.Texture | null,
+    texture: THREE.Texture | null,
+    environment: THREE.WebGLRenderTarget | null
+  ): void {
+    this.backgroundTexture?.dispose();
+    this.environmentTarget?.dispose();
+    this.backgroundTexture = texture;
+    this.environmentTarget = environment;
+
+    this.scene.background = background;
+    this.scene.environment = environment?.texture ?? null;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Seeded random numbers for procedural motion
+ *
+ * Features:
+ * - Blinks, saccades, sway, weight shifts, backchannels and viseme variation
+ *   all draw from a RandomSource instead of Math.random
+ * - A seed gives the same sequence every time, so a session capture and its
+ *   replays move identically
+ * - Each controller gets its own stream of the seed, so one drawing more
+ *   numbers (e.g. while the user talks) doesn't shift everyone else's
+ */
+
+// Returns a number in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/**
+ * A fresh seed for a new capture
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Mulberry32: small, fast and good enough for animation
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Independent stream number `stream` of a seed
+ */
+export function createRandomStream(seed: number, stream: number): RandomSource {
+  return createRandom((seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0);
+}
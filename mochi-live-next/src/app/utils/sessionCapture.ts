@@ -0,0 +1,235 @@
+import type { AvatarAudioSource } from './audioSources';
+import { downloadBlob } from './downloadFile';
+
+/**
+ * Deterministic session capture and replay
+ *
+ * Lip sync and animation bugs depend on live audio frames and trigger timing,
+ * which makes them hard to reproduce. A capture stores exactly what VRMScene's
+ * render loop consumed, frame by frame:
+ * - Frame delta, byte frequency data and isSpeaking
+ * - The user's microphone spectrum, which drives listening
+ * - Triggers (animation, transcript, emotion, gaze, thinking, camera), keyed
+ *   to the frame they were applied on
+ * - The seed the avatar's procedural motion (blinks, saccades, sway...) was
+ *   restarted with when the capture began
+ *
+ * ReplayAudioSource feeds a capture back one frame per render, using the
+ * captured frame deltas instead of the wall clock, with no network connection.
+ * The avatar restarts its motion from the same seed and ignores live triggers
+ * while replaying, so every replay of a file produces the same poses.
+ */
+
+export type CaptureEventType = 'animation' | 'transcript' | 'emotion' | 'gaze' | 'thinking' | 'camera';
+
+export interface CaptureEvent {
+  frame: number; // Applied before this frame is processed
+  type: CaptureEventType;
+  data: Record<string, unknown>;
+}
+
+export interface CapturedFrame {
+  dt: number;       // Frame delta in ms
+  speaking: boolean;
+  data: string;     // Byte frequency data, base64 ('' when the source had none)
+  input?: string;   // Microphone frequency data, base64 (omitted without a microphone)
+}
+
+export interface SessionCaptureFile {
+  version: 1;
+  startedAt: string;
+  sourceKind: string;
+  sampleRate?: number;
+  fftSize?: number;
+  seed?: number;    // Procedural motion seed (captures from before seeding replay loosely)
+  frames: CapturedFrame[];
+  events: CaptureEvent[];
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Records what the render loop consumes each frame
+ */
+export class SessionCapture {
+  private file: SessionCaptureFile | null = null;
+
+  /**
+   * Start capturing. The avatar must restart its motion from the same seed.
+   */
+  start(source: AvatarAudioSource | null | undefined, seed: number): void {
+    this.file = {
+      version: 1,
+      startedAt: new Date().toISOString(),
+      sourceKind: source?.kind ?? 'none',
+      sampleRate: source?.getSampleRate(),
+      fftSize: source?.getFftSize(),
+      seed,
+      frames: [],
+      events: [],
+    };
+    console.log('🎞️ Session capture started');
+  }
+
+  isCapturing(): boolean {
+    return this.file !== null;
+  }
+
+  /**
+   * Record a trigger; it applies to the next captured frame
+   */
+  logEvent(type: CaptureEventType, data: Record<string, unknown>): void {
+    this.file?.events.push({ frame: this.file.frames.length, type, data });
+  }
+
+  /**
+   * Record one render loop frame
+   */
+  captureFrame(
+    deltaMs: number,
+    source: AvatarAudioSource | null | undefined,
+    frequencyData: Uint8Array | undefined,
+    isSpeaking: boolean,
+    inputData?: Uint8Array
+  ): void {
+    if (!this.file) return;
+
+    // The sample rate is often only known once the agent session has started
+    this.file.sampleRate ??= source?.getSampleRate();
+    this.file.fftSize ??= source?.getFftSize();
+
+    this.file.frames.push({
+      dt: Math.round(deltaMs * 1000) / 1000,
+      speaking: isSpeaking,
+      data: frequencyData ? bytesToBase64(frequencyData) : '',
+      ...(inputData ? { input: bytesToBase64(inputData) } : {}),
+    });
+  }
+
+  stop(): SessionCaptureFile | null {
+    const file = this.file;
+    this.file = null;
+    if (file) {
+      console.log(`🎞️ Session capture stopped (${file.frames.length} frames, ${file.events.length} events)`);
+    }
+    return file;
+  }
+}
+
+/**
+ * Plays a capture back through VRMScene, one captured frame per rendered frame
+ */
+export class ReplayAudioSource implements AvatarAudioSource {
+  readonly kind = 'replay';
+  private readonly file: SessionCaptureFile;
+  private readonly frames: Array<{ dt: number; speaking: boolean; data: Uint8Array | undefined; input: Uint8Array | undefined }>;
+  private frameIndex: number = -1;
+  private eventIndex: number = 0;
+  private readonly loop: boolean;
+
+  constructor(file: SessionCaptureFile, options: { loop?: boolean } = {}) {
+    if (file.version !== 1 || !Array.isArray(file.frames)) {
+      throw new Error('Unsupported session capture file');
+    }
+    this.file = file;
+    this.loop = options.loop ?? false;
+    // Decode everything up front so playback doesn't stutter
+    this.frames = file.frames.map(frame => ({
+      dt: frame.dt,
+      speaking: frame.speaking,
+      data: frame.data ? base64ToBytes(frame.data) : undefined,
+      input: frame.input ? base64ToBytes(frame.input) : undefined,
+    }));
+  }
+
+  static fromJSON(json: string, options: { loop?: boolean } = {}): ReplayAudioSource {
+    return new ReplayAudioSource(JSON.parse(json) as SessionCaptureFile, options);
+  }
+
+  /**
+   * Seed to restart the avatar's motion with at the first frame
+   */
+  getSeed(): number {
+    return this.file.seed ?? 0;
+  }
+
+  /**
+   * Step to the next captured frame. Returns its delta and the events to apply
+   * before it, or null once the capture has finished. `first` is set on the
+   * first frame of every pass, when the avatar has to restart its motion.
+   */
+  nextFrame(): { deltaMs: number; events: CaptureEvent[]; first: boolean } | null {
+    if (this.frameIndex + 1 >= this.frames.length) {
+      if (!this.loop || this.frames.length === 0) {
+        // Finished: report silence from here on
+        this.frameIndex = this.frames.length;
+        return null;
+      }
+      this.frameIndex = -1;
+      this.eventIndex = 0;
+    }
+    this.frameIndex++;
+
+    const events: CaptureEvent[] = [];
+    while (this.eventIndex < this.file.events.length && this.file.events[this.eventIndex].frame <= this.frameIndex) {
+      events.push(this.file.events[this.eventIndex++]);
+    }
+
+    return { deltaMs: this.frames[this.frameIndex].dt, events, first: this.frameIndex === 0 };
+  }
+
+  isFinished(): boolean {
+    return !this.loop && this.frameIndex >= this.frames.length;
+  }
+
+  getProgress(): number {
+    return this.frames.length > 0 ? Math.min(1, Math.max(0, this.frameIndex + 1) / this.frames.length) : 1;
+  }
+
+  isSpeaking(): boolean {
+    return this.frames[this.frameIndex]?.speaking ?? false;
+  }
+
+  getOutputByteFrequencyData(): Uint8Array | undefined {
+    return this.frames[this.frameIndex]?.data;
+  }
+
+  getInputByteFrequencyData(): Uint8Array | undefined {
+    return this.frames[this.frameIndex]?.input;
+  }
+
+  getSampleRate(): number | undefined {
+    return this.file.sampleRate;
+  }
+
+  getFftSize(): number | undefined {
+    return this.file.fftSize;
+  }
+
+  captureStream(): MediaStream | undefined {
+    // Captures hold spectra, not audio
+    return undefined;
+  }
+
+  dispose(): void {
+    this.frameIndex = this.frames.length;
+  }
+}
+
+/**
+ * Download a capture as JSON
+ */
+export function downloadCapture(file: SessionCaptureFile): void {
+  downloadBlob(
+    new Blob([JSON.stringify(file)], { type: 'application/json' }),
+    `capture-${file.startedAt.replace(/[:.]/g, '-')}.json`
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * SessionRecorder captures the avatar to a WebM video with a sidecar event log
+ *
+ * Features:
+ * - Records the scene canvas plus the avatars' audio with MediaRecorder; with
+ *   several avatars their voices are mixed into one track
+ * - Logs animation, emotion, gaze and camera triggers, transcript lines and sampled
+ *   viseme weights, timestamped in ms from the start of the recording, so the
+ *   video can be edited or subtitled afterwards
+ */
+
+import { downloadBlob } from './downloadFile';
+
+export type RecordingEventType = 'animation' | 'emotion' | 'gaze' | 'camera' | 'transcript' | 'viseme';
+
+export interface RecordingEvent {
+  t: number; // ms since the recording started
+  type: RecordingEventType;
+  data: Record<string, unknown>;
+}
+
+export interface RecordingLog {
+  version: 1;
+  startedAt: string; // ISO timestamp
+  duration: number;  // ms
+  mimeType: string;
+  events: RecordingEvent[];
+}
+
+export interface RecordingResult {
+  video: Blob;
+  log: RecordingLog;
+}
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private events: RecordingEvent[] = [];
+  private startTime: number = 0;
+  private startedAt: Date = new Date();
+  private lastVisemeTime: number = -Infinity;
+  private lastVisemeKey: string = '';
+  private mixer: AudioContext | null = null; // Mixes several avatars' audio
+
+  // Configuration
+  private readonly visemeIntervalMs = 1000 / 15; // Viseme sample rate in the log
+
+  /**
+   * Start recording the canvas, with the avatars' audio tracks if available
+   */
+  start(canvas: HTMLCanvasElement, audioStreams: MediaStream[] = [], fps: number = 30): void {
+    if (this.recorder) return;
+
+    const stream = canvas.captureStream(fps);
+    const audioStream = this.mixAudio(audioStreams);
+    audioStream?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.events = [];
+    this.lastVisemeTime = -Infinity;
+    this.lastVisemeKey = '';
+
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+
+    this.startTime = performance.now();
+    this.startedAt = new Date();
+    this.recorder.start(1000); // Flush a chunk every second so long sessions don't buffer in one blob
+    console.log(`⏺️ Recording started (${this.recorder.mimeType || 'default format'}${audioStream ? ', with audio' : ', no audio'})`);
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Add an event to the log (ignored when not recording)
+   */
+  logEvent(type: RecordingEventType, data: Record<string, unknown>): void {
+    if (!this.recorder) return;
+    this.events.push({ t: Math.round(performance.now() - this.startTime), type, data });
+  }
+
+  /**
+   * Sample viseme weights into the log at a fixed rate, skipping unchanged frames.
+   * Call this every frame in the animation loop.
+   */
+  logVisemes(weights: Record<string, number>): void {
+    if (!this.recorder) return;
+
+    const now = performance.now();
+    if (now - this.lastVisemeTime < this.visemeIntervalMs) return;
+
+    const rounded: Record<string, number> = {};
+    for (const [viseme, weight] of Object.entries(weights)) {
+      if (weight >= 0.01) rounded[viseme] = Math.round(weight * 100) / 100;
+    }
+
+    const key = JSON.stringify(rounded);
+    if (key === this.lastVisemeKey) return;
+
+    this.lastVisemeTime = now;
+    this.lastVisemeKey = key;
+    this.logEvent('viseme', rounded);
+  }
+
+  /**
+   * Stop recording and return the video and event log
+   */
+  stop(): Promise<RecordingResult> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('Not recording'));
+    }
+    this.recorder = null;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        // The canvas track belongs to this recording; audio tracks belong to their source
+        recorder.stream.getVideoTracks().forEach(track => track.stop());
+        void this.mixer?.close();
+        this.mixer = null;
+
+        const mimeType = recorder.mimeType || 'video/webm';
+        const log: RecordingLog = {
+          version: 1,
+          startedAt: this.startedAt.toISOString(),
+          duration: Math.round(performance.now() - this.startTime),
+          mimeType,
+          events: this.events,
+        };
+        console.log(`⏹️ Recording stopped (${(log.duration / 1000).toFixed(1)}s, ${log.events.length} events)`);
+        resolve({ video: new Blob(this.chunks, { type: mimeType }), log });
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * One stream with every audio track; MediaRecorder only records the first audio track it gets
+   */
+  private mixAudio(streams: MediaStream[]): MediaStream | undefined {
+    const withAudio = streams.filter(stream => stream.getAudioTracks().length > 0);
+    if (withAudio.length <= 1) return withAudio[0];
+
+    const mixer = new AudioContext();
+    const destination = mixer.createMediaStreamDestination();
+    withAudio.forEach(stream => mixer.createMediaStreamSource(stream).connect(destination));
+    this.mixer = mixer;
+    return destination.stream;
+  }
+}
+
+/**
+ * Download a recording as <name>.webm and <name>.json
+ */
+export function downloadRecording(result: RecordingResult, name: string = `mochi-${new Date().toISOString().replace(/[:.]/g, '-')}`): void {
+  downloadBlob(result.video, `${name}.webm`);
+  downloadBlob(new Blob([JSON.stringify(result.log, null, 2)], { type: 'application/json' }), `${name}.json`);
+}
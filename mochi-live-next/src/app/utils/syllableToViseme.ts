@@ -1,3 +1,5 @@
+import type { RandomSource } from './seededRandom';
+
 /**
  * Map syllables and phonemes to VRM viseme expressions
  */
@@ -50,7 +52,7 @@ function parseIntoSyllables(text: string): string[] {
 /**
  * Convert text into a sequence of viseme frames
  */
-export function textToVisemeFrames(text: string, speechRate: number = 2.5): VisemeFrame[] {
+export function textToVisemeFrames(text: string, speechRate: number = 2.5, random: RandomSource = Math.random): VisemeFrame[] {
   // speechRate = syllables per second (default ~2.5 = natural speech)
   const syllableDuration = 1000 / speechRate; // ms per syllable
 
@@ -69,7 +71,7 @@ export function textToVisemeFrames(text: string, speechRate: number = 2.5): Vise
       frames.push({
         viseme,
         duration: syllableDuration,
-        intensity: 0.7 + Math.random() * 0.3, // 0.7-1.0 for natural variation
+        intensity: 0.7 + random() * 0.3, // 0.7-1.0 for natural variation
       });
     } else {
       // Consonant-only syllable, use brief neutral
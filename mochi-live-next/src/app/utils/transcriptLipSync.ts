@@ -0,0 +1,169 @@
+/**
+ * Transcript-driven lip sync
+ *
+ * Turns the agent's response text into a viseme timeline and blends it with
+ * the FFT-based viseme from frequencyToViseme:
+ * - The text decides the mouth SHAPE (which vowel is being said)
+ * - The audio decides TIMING and INTENSITY (the timeline only advances while
+ *   the agent is audible, and the mouth only opens as far as the volume allows)
+ *
+ * Formant scoring alone often picks the wrong vowel, while text alone drifts
+ * out of sync; combining them keeps the shape right and the timing honest.
+ */
+
+import { textToVisemeFrames, getCurrentViseme, VisemeFrame, VisemeType } from './syllableToViseme';
+import type { RandomSource } from './seededRandom';
+
+export type VisemeWeights = Partial<Record<Exclude<VisemeType, 'neutral'>, number>>;
+
+export class TranscriptLipSync {
+  private pendingTexts: string[] = [];
+  private frames: VisemeFrame[] = [];
+  private elapsedMs: number = 0; // Speech time, only advances while audible
+  private wasSpeaking: boolean = false;
+
+  // Timing configuration
+  private readonly speechRate = 4.5; // Syllables per second of conversational speech
+  private readonly silenceThreshold = 0.05; // Audio intensity below which the timeline holds
+
+  // Blend configuration
+  private readonly textWeight = 0.75; // Share of the mouth shape taken from the transcript
+  private readonly silentMouthOpen = 0.7; // How far the mouth opens when there is no audio to follow
+
+  // Varies the vowel intensities; seeded for replays
+  private readonly random: RandomSource;
+
+  constructor(random: RandomSource = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Queue agent response text. It starts playing at the next start of agent
+   * speech, or immediately if the agent is already speaking with nothing queued.
+   */
+  addText(text: string): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    if (this.wasSpeaking && !this.hasTimeline()) {
+      this.startTimeline(trimmed);
+    } else {
+      this.pendingTexts.push(trimmed);
+    }
+  }
+
+  /**
+   * Advance the timeline and blend it with the audio viseme.
+   * Call this every frame in the animation loop.
+   */
+  update(
+    deltaMs: number,
+    isSpeaking: boolean,
+    audioViseme: { viseme: VisemeType; intensity: number }
+  ): VisemeWeights {
+    // Align the timeline to the start of agent speech
+    if (isSpeaking && !this.wasSpeaking) {
+      const next = this.pendingTexts.shift();
+      if (next) this.startTimeline(next);
+    } else if (!isSpeaking && this.wasSpeaking) {
+      // Speech ended (or was interrupted): drop whatever wasn't said
+      this.frames = [];
+    }
+    this.wasSpeaking = isSpeaking;
+
+    if (audioViseme.intensity >= this.silenceThreshold) {
+      this.elapsedMs += deltaMs;
+    }
+
+    const textViseme = this.hasTimeline() ? getCurrentViseme(this.frames, this.elapsedMs) : null;
+
+    // Timeline exhausted: start the next queued response if still speaking
+    if (!textViseme && this.frames.length > 0) {
+      this.frames = [];
+      const next = isSpeaking ? this.pendingTexts.shift() : undefined;
+      if (next) this.startTimeline(next);
+    }
+
+    return this.blend(textViseme, audioViseme);
+  }
+
+  /**
+   * Play the queued text without any audio, for sessions that only receive text.
+   * The timeline runs at the speech rate and the text alone shapes the mouth.
+   */
+  updateWithoutAudio(deltaMs: number): { weights: VisemeWeights; speaking: boolean } {
+    if (!this.hasTimeline()) {
+      const next = this.pendingTexts.shift();
+      if (next) this.startTimeline(next);
+    } else {
+      this.elapsedMs += deltaMs;
+    }
+
+    let textViseme = this.hasTimeline() ? getCurrentViseme(this.frames, this.elapsedMs) : null;
+    if (!textViseme && this.hasTimeline()) {
+      this.frames = [];
+      const next = this.pendingTexts.shift();
+      if (next) {
+        this.startTimeline(next);
+        textViseme = getCurrentViseme(this.frames, this.elapsedMs);
+      }
+    }
+
+    const weights: VisemeWeights = {};
+    if (textViseme && textViseme.viseme !== 'neutral') {
+      weights[textViseme.viseme] = textViseme.intensity * this.silentMouthOpen;
+    }
+    return { weights, speaking: this.hasTimeline() };
+  }
+
+  hasTimeline(): boolean {
+    return this.frames.length > 0;
+  }
+
+  /**
+   * Reset controller state
+   */
+  reset(): void {
+    this.pendingTexts = [];
+    this.frames = [];
+    this.elapsedMs = 0;
+    this.wasSpeaking = false;
+  }
+
+  private startTimeline(text: string): void {
+    this.frames = textToVisemeFrames(text, this.speechRate, this.random);
+    this.elapsedMs = 0;
+  }
+
+  /**
+   * Mix the transcript shape with the audio shape, scaled by audio intensity
+   */
+  private blend(
+    textViseme: { viseme: VisemeType; intensity: number } | null,
+    audioViseme: { viseme: VisemeType; intensity: number }
+  ): VisemeWeights {
+    const weights: VisemeWeights = {};
+    const intensity = audioViseme.intensity;
+
+    const addWeight = (viseme: VisemeType, amount: number) => {
+      if (viseme === 'neutral' || amount <= 0) return;
+      weights[viseme] = Math.min(1, (weights[viseme] ?? 0) + amount);
+    };
+
+    if (!textViseme) {
+      // No transcript available: pure frequency analysis
+      addWeight(audioViseme.viseme, intensity);
+      return weights;
+    }
+
+    if (textViseme.viseme === 'neutral') {
+      // Consonant in the text: keep the mouth mostly closed unless the audio is loud
+      addWeight(audioViseme.viseme, intensity * (1 - this.textWeight));
+      return weights;
+    }
+
+    addWeight(textViseme.viseme, intensity * textViseme.intensity * this.textWeight);
+    addWeight(audioViseme.viseme, intensity * (1 - this.textWeight));
+    return weights;
+  }
+}
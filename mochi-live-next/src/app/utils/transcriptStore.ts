@@ -0,0 +1,133 @@
+import { STORES, withStore } from './indexedDb';
+import { downloadBlob } from './downloadFile';
+
+/**
+ * Conversation transcripts
+ *
+ * Features:
+ * - User and agent turns, client tool calls and lines sent by remote control,
+ *   each with a timestamp
+ * - Sessions persisted in IndexedDB so past conversations can be browsed
+ * - Export to JSON (lossless) and Markdown (readable)
+ */
+
+export type TranscriptRole = 'user' | 'agent' | 'tool' | 'remote';
+
+export interface TranscriptEntry {
+  role: TranscriptRole;
+  text: string;
+  timestamp: number;
+  // Set for tool calls
+  tool?: {
+    name: string;
+    parameters: Record<string, unknown>;
+    result: string;
+  };
+}
+
+export interface TranscriptSession {
+  id: string;
+  agentId: string;
+  startedAt: number;
+  endedAt?: number;
+  entries: TranscriptEntry[];
+}
+
+export function createSession(agentId: string): TranscriptSession {
+  const startedAt = Date.now();
+  return {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    agentId,
+    startedAt,
+    entries: [],
+  };
+}
+
+export function appendEntry(session: TranscriptSession, entry: Omit<TranscriptEntry, 'timestamp'>): TranscriptSession {
+  return {
+    ...session,
+    entries: [...session.entries, { ...entry, timestamp: Date.now() }],
+  };
+}
+
+export function describeToolCall(name: string, parameters: Record<string, unknown>): string {
+  const args = Object.entries(parameters)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(', ');
+  return `${name}(${args})`;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+export async function saveSession(session: TranscriptSession): Promise<void> {
+  await withStore(STORES.transcripts, 'readwrite', (store) => store.put(session));
+}
+
+/**
+ * All saved sessions, newest first
+ */
+export async function listSessions(): Promise<TranscriptSession[]> {
+  const sessions = await withStore<TranscriptSession[]>(STORES.transcripts, 'readonly', (store) => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(STORES.transcripts, 'readwrite', (store) => store.delete(id));
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function sessionToJSON(session: TranscriptSession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+export function sessionToMarkdown(session: TranscriptSession): string {
+  const time = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+  const lines = [
+    `# Conversation ${new Date(session.startedAt).toLocaleString()}`,
+    '',
+    `- Agent: \`${session.agentId}\``,
+    `- Started: ${new Date(session.startedAt).toISOString()}`,
+  ];
+  if (session.endedAt) {
+    lines.push(`- Ended: ${new Date(session.endedAt).toISOString()}`);
+  }
+  lines.push('');
+
+  for (const entry of session.entries) {
+    switch (entry.role) {
+      case 'user':
+        lines.push(`**User** (${time(entry.timestamp)}): ${entry.text}`, '');
+        break;
+      case 'agent':
+        lines.push(`**Agent** (${time(entry.timestamp)}): ${entry.text}`, '');
+        break;
+      case 'remote':
+        lines.push(`**Remote** (${time(entry.timestamp)}): ${entry.text}`, '');
+        break;
+      case 'tool':
+        lines.push(`> 🛠️ ${time(entry.timestamp)} \`${entry.text}\`${entry.tool ? ` → ${entry.tool.result}` : ''}`, '');
+        break;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Save a session export as a download
+ */
+export function downloadSession(session: TranscriptSession, format: 'json' | 'markdown'): void {
+  const content = format === 'json' ? sessionToJSON(session) : sessionToMarkdown(session);
+  const type = format === 'json' ? 'application/json' : 'text/markdown';
+  const extension = format === 'json' ? 'json' : 'md';
+
+  downloadBlob(
+    new Blob([content], { type }),
+    `conversation-${new Date(session.startedAt).toISOString().replace(/[:.]/g, '-')}.${extension}`
+  );
+}
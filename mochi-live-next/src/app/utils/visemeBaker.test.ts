@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bakeVisemeTrackFromWav, decodeWav, visemeTrackToAnimationClip } from './visemeBaker';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * 2s of 16-bit mono WAV: silence, then an "aa"-like vowel from 0.5s to 1s, then
+ * silence again. The vowel is a 150 Hz voice whose harmonics near F1 (750 Hz)
+ * and F2 (1200 Hz) are boosted; a bare sine pair is too narrowband to pass the
+ * silence gate, which averages every bin.
+ */
+function createVowelWav(): ArrayBuffer {
+  const sampleCount = SAMPLE_RATE * 2;
+  const buffer = new ArrayBuffer(44 + sampleCount * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + sampleCount * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);               // Integer PCM
+  view.setUint16(22, 1, true);               // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true); // Byte rate
+  view.setUint16(32, 2, true);               // Block align
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, sampleCount * 2, true);
+
+  const harmonicAmplitude = (hz: number) => (Math.abs(hz - 750) < 100 || Math.abs(hz - 1200) < 100 ? 0.15 : 0.01);
+  for (let i = 0; i < sampleCount; i++) {
+    const t = i / SAMPLE_RATE;
+    let sample = 0;
+    if (t >= 0.5 && t < 1) {
+      for (let hz = 150; hz < SAMPLE_RATE / 2; hz += 150) {
+        sample += harmonicAmplitude(hz) * Math.sin(2 * Math.PI * hz * t);
+      }
+    }
+    view.setInt16(44 + i * 2, Math.round(sample * 32767), true);
+  }
+  return buffer;
+}
+
+test('decodeWav reads the sample rate, channels and samples', () => {
+  const audio = decodeWav(createVowelWav());
+
+  assert.equal(audio.sampleRate, SAMPLE_RATE);
+  assert.equal(audio.channels.length, 1);
+  assert.equal(audio.channels[0].length, SAMPLE_RATE * 2);
+  assert.equal(audio.channels[0][0], 0);
+});
+
+test('bakeVisemeTrackFromWav opens the mouth on the vowel only', () => {
+  const track = bakeVisemeTrackFromWav(createVowelWav(), { fps: 60 });
+
+  assert.equal(track.sampleRate, SAMPLE_RATE);
+  assert.equal(track.duration, 2);
+  assert.equal(track.frames.length, 121);
+  assert.equal(track.frames[track.frames.length - 1].time, 2);
+
+  const framesBetween = (from: number, to: number) => track.frames.filter(frame => frame.time >= from && frame.time < to);
+  for (const frame of framesBetween(0, 0.45)) {
+    assert.deepEqual([frame.viseme, frame.intensity], ['neutral', 0], `silent at ${frame.time}s`);
+  }
+  for (const frame of framesBetween(0.6, 1)) {
+    assert.equal(frame.viseme, 'aa', `aa at ${frame.time}s`);
+    assert.ok(frame.intensity > 0.4, `open at ${frame.time}s`);
+  }
+  // The analyser's smoothing lets the mouth close over ~0.35s after the vowel
+  for (const frame of framesBetween(1.5, 2.01)) {
+    assert.deepEqual([frame.viseme, frame.intensity], ['neutral', 0], `closed again at ${frame.time}s`);
+  }
+});
+
+test('visemeTrackToAnimationClip keys every vowel expression per frame', () => {
+  const track = bakeVisemeTrackFromWav(createVowelWav(), { fps: 60 });
+  const clip = visemeTrackToAnimationClip(track);
+
+  assert.equal(clip.duration, 2);
+  assert.deepEqual(
+    clip.tracks.map(keyframes => keyframes.name),
+    ['aa', 'ee', 'ih', 'oh', 'ou'].map(viseme => `VRMExpression_${viseme}.weight`)
+  );
+
+  const aa = clip.tracks[0];
+  assert.equal(aa.times.length, track.frames.length);
+  const middle = track.frames.findIndex(frame => frame.time >= 0.75);
+  assert.ok(aa.values[middle] > 0.5);
+  assert.equal(clip.tracks[1].values[middle], 0);
+});
@@ -0,0 +1,329 @@
+/**
+ * Offline viseme track baking
+ *
+ * Runs the same frequencyToViseme + VisemeSmoother pipeline as the live render
+ * loop over a decoded audio file, without a browser or an AudioContext:
+ * - decodeWav parses PCM / float WAV files into per-channel samples
+ * - OfflineSpectrumAnalyser reproduces AnalyserNode.getByteFrequencyData
+ *   (Blackman window, temporal smoothing, dB scaling to 0-255)
+ * - bakeVisemeTrack produces a viseme timeline that can be saved as JSON or
+ *   turned into a THREE.AnimationClip of VRM expression weights
+ *
+ * Everything here is plain TypeScript, so it also runs in Node for narrated
+ * clips and lip sync tests.
+ */
+
+import * as THREE from 'three';
+import {
+  AnalyzerOptions,
+  VOWEL_VISEMES,
+  VisemeSmoother,
+  VisemeType,
+  frequencyToViseme,
+} from './frequencyToViseme';
+
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface VisemeTrackFrame {
+  time: number; // seconds
+  viseme: VisemeType;
+  intensity: number; // 0-1
+}
+
+export interface VisemeTrack {
+  version: 1;
+  sampleRate: number;
+  fps: number;
+  duration: number; // seconds
+  frames: VisemeTrackFrame[];
+}
+
+export interface BakeOptions {
+  fps?: number;                   // Analysis frames per second (default 60, like the render loop)
+  fftSize?: number;               // Power of two (default 2048, the AnalyserNode default)
+  smoothingTimeConstant?: number; // AnalyserNode smoothing (default 0.8)
+  analyzer?: Omit<AnalyzerOptions, 'sampleRate' | 'fftSize'>;
+}
+
+/**
+ * Decode a RIFF/WAVE file holding integer PCM (8/16/24/32-bit) or float32 samples
+ */
+export function decodeWav(buffer: ArrayBuffer): DecodedAudio {
+  const view = new DataView(buffer);
+  const readTag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+
+  if (readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks looking for "fmt " and "data"
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readTag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+      if (format === 0xfffe && chunkSize >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (chunkId === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(chunkSize, view.byteLength - body);
+      break;
+    }
+
+    offset = body + chunkSize + (chunkSize % 2); // Chunks are word-aligned
+  }
+
+  if (dataOffset < 0 || channelCount === 0) {
+    throw new Error('WAV file is missing its fmt or data chunk');
+  }
+  if (format !== 1 && format !== 3) {
+    throw new Error(`Unsupported WAV format: ${format}`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const position = dataOffset + (i * channelCount + c) * bytesPerSample;
+      channels[c][i] = readSample(view, position, format, bitsPerSample);
+    }
+  }
+
+  return { sampleRate, channels };
+}
+
+function readSample(view: DataView, position: number, format: number, bitsPerSample: number): number {
+  if (format === 3) {
+    return bitsPerSample === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+  }
+
+  switch (bitsPerSample) {
+    case 8:
+      return (view.getUint8(position) - 128) / 128;
+    case 16:
+      return view.getInt16(position, true) / 32768;
+    case 24: {
+      const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(position, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+  }
+}
+
+/**
+ * Convert raw little-endian 16-bit PCM (e.g. ElevenLabs pcm_* output) to floats
+ */
+export function pcm16ToFloat32(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 32768;
+  }
+  return samples;
+}
+
+/**
+ * Mix all channels down to mono
+ */
+export function mixToMono(audio: DecodedAudio): Float32Array {
+  if (audio.channels.length === 1) return audio.channels[0];
+
+  const length = audio.channels[0].length;
+  const mono = new Float32Array(length);
+  for (const channel of audio.channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / audio.channels.length;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Offline equivalent of AnalyserNode.getByteFrequencyData
+ * (see the Web Audio spec, "FFT windowing and smoothing over time")
+ */
+export class OfflineSpectrumAnalyser {
+  readonly fftSize: number;
+  readonly frequencyBinCount: number;
+  private readonly smoothingTimeConstant: number;
+  private readonly minDecibels = -100;
+  private readonly maxDecibels = -30;
+  private readonly window: Float32Array;
+  private readonly smoothed: Float32Array;
+  private readonly real: Float32Array;
+  private readonly imag: Float32Array;
+
+  constructor(fftSize: number = 2048, smoothingTimeConstant: number = 0.8) {
+    if (fftSize < 32 || (fftSize & (fftSize - 1)) !== 0) {
+      throw new Error(`fftSize must be a power of two >= 32, got ${fftSize}`);
+    }
+
+    this.fftSize = fftSize;
+    this.frequencyBinCount = fftSize / 2;
+    this.smoothingTimeConstant = smoothingTimeConstant;
+    this.smoothed = new Float32Array(this.frequencyBinCount);
+    this.real = new Float32Array(fftSize);
+    this.imag = new Float32Array(fftSize);
+
+    // Blackman window
+    const alpha = 0.16;
+    this.window = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      const x = (2 * Math.PI * i) / fftSize;
+      this.window[i] = (1 - alpha) / 2 - 0.5 * Math.cos(x) + (alpha / 2) * Math.cos(2 * x);
+    }
+  }
+
+  /**
+   * Analyse the fftSize samples ending at `endIndex` (zero-padded before the start)
+   */
+  getByteFrequencyData(samples: Float32Array, endIndex: number, output: Uint8Array = new Uint8Array(this.frequencyBinCount)): Uint8Array {
+    const start = endIndex - this.fftSize;
+    for (let i = 0; i < this.fftSize; i++) {
+      const index = start + i;
+      const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+      this.real[i] = sample * this.window[i];
+      this.imag[i] = 0;
+    }
+
+    fft(this.real, this.imag);
+
+    const range = this.maxDecibels - this.minDecibels;
+    for (let k = 0; k < this.frequencyBinCount; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / this.fftSize;
+      this.smoothed[k] = this.smoothingTimeConstant * this.smoothed[k] + (1 - this.smoothingTimeConstant) * magnitude;
+
+      const decibels = this.smoothed[k] > 0 ? 20 * Math.log10(this.smoothed[k]) : -Infinity;
+      const scaled = Math.floor((255 / range) * (decibels - this.minDecibels));
+      output[k] = Math.max(0, Math.min(255, scaled));
+    }
+
+    return output;
+  }
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const half = size >> 1;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Run the live lip sync pipeline over mono samples and return the viseme timeline
+ */
+export function bakeVisemeTrack(samples: Float32Array, sampleRate: number, options: BakeOptions = {}): VisemeTrack {
+  const fps = options.fps ?? 60;
+  const analyser = new OfflineSpectrumAnalyser(options.fftSize ?? 2048, options.smoothingTimeConstant ?? 0.8);
+  const smoother = new VisemeSmoother();
+  const analyzerOptions: AnalyzerOptions = { ...options.analyzer, sampleRate, fftSize: analyser.fftSize };
+
+  const duration = samples.length / sampleRate;
+  const frameCount = Math.ceil(duration * fps);
+  const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  const frames: VisemeTrackFrame[] = [];
+
+  for (let i = 0; i <= frameCount; i++) {
+    const time = Math.min(duration, i / fps);
+    analyser.getByteFrequencyData(samples, Math.round(time * sampleRate), frequencyData);
+
+    const raw = frequencyToViseme(frequencyData, analyzerOptions);
+    const smoothed = smoother.add(raw.viseme, raw.intensity, time * 1000);
+
+    frames.push({ time, viseme: smoothed.viseme, intensity: smoothed.intensity });
+  }
+
+  return { version: 1, sampleRate, fps, duration, frames };
+}
+
+/**
+ * Decode a WAV file and bake its viseme track
+ */
+export function bakeVisemeTrackFromWav(buffer: ArrayBuffer, options: BakeOptions = {}): VisemeTrack {
+  const audio = decodeWav(buffer);
+  return bakeVisemeTrack(mixToMono(audio), audio.sampleRate, options);
+}
+
+export function visemeTrackToJSON(track: VisemeTrack): string {
+  return JSON.stringify(track);
+}
+
+export function visemeTrackFromJSON(json: string): VisemeTrack {
+  const track = JSON.parse(json) as VisemeTrack;
+  if (track.version !== 1 || !Array.isArray(track.frames)) {
+    throw new Error('Unsupported viseme track format');
+  }
+  return track;
+}
+
+/**
+ * Convert a viseme track into an AnimationClip of VRM expression weights.
+ * Tracks target the VRMExpression objects three-vrm adds to the VRM scene,
+ * so the clip plays on a mixer rooted at vrm.scene.
+ */
+export function visemeTrackToAnimationClip(track: VisemeTrack, name: string = 'visemes'): THREE.AnimationClip {
+  const times = new Float32Array(track.frames.map(frame => frame.time));
+
+  const tracks = VOWEL_VISEMES.map(viseme => {
+    const values = new Float32Array(track.frames.map(frame => (
+      frame.viseme === viseme && frame.intensity > 0.1 ? frame.intensity : 0
+    )));
+    return new THREE.NumberKeyframeTrack(`VRMExpression_${viseme}.weight`, times, values);
+  });
+
+  return new THREE.AnimationClip(name, track.duration, tracks);
+}
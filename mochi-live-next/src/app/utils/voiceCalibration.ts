@@ -0,0 +1,206 @@
+/**
+ * VoiceCalibrator fits a VoiceProfile to a specific agent voice
+ *
+ * Records a few seconds of the agent's output spectrum, then:
+ * - Estimates the noise floor and speech level to set the silence cutoff
+ * - Finds the F1/F2 peaks of voiced frames and scales the default formant
+ *   ranges to this voice (a higher-pitched, shorter vocal tract shifts every
+ *   formant up by roughly the same factor)
+ * - Sets the score threshold and intensity normalization from the spread of
+ *   formant scores the voice actually produces
+ */
+
+import {
+  AnalyzerOptions,
+  DEFAULT_FORMANT_RANGES,
+  DEFAULT_SAMPLE_RATE,
+  DEFAULT_VOICE_PROFILE,
+  FormantRange,
+  VOWEL_VISEMES,
+  VoiceProfile,
+  VowelViseme,
+  getAverageAmplitude,
+  scoreVisemes,
+} from './frequencyToViseme';
+
+const STORAGE_KEY = 'mochi-live.voiceProfiles';
+
+// Search bands for formant peaks (Hz)
+const F1_SEARCH: [number, number] = [200, 1000];
+const F2_SEARCH: [number, number] = [700, 3000];
+
+// Formant scaling is clamped to plausible differences between voices
+const MIN_FORMANT_SCALE = 0.75;
+const MAX_FORMANT_SCALE = 1.35;
+
+const MIN_VOICED_FRAMES = 30;
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function median(values: number[]): number {
+  return percentile(values, 0.5);
+}
+
+function rangeCenter(range: [number, number]): number {
+  return (range[0] + range[1]) / 2;
+}
+
+function scaleRange(range: [number, number], scale: number): [number, number] {
+  return [Math.round(range[0] * scale), Math.round(range[1] * scale)];
+}
+
+// Reference formant centres of the default ranges, averaged over all vowels
+const REFERENCE_F1 = VOWEL_VISEMES.reduce((sum, v) => sum + rangeCenter(DEFAULT_FORMANT_RANGES[v].f1), 0) / VOWEL_VISEMES.length;
+const REFERENCE_F2 = VOWEL_VISEMES.reduce((sum, v) => sum + rangeCenter(DEFAULT_FORMANT_RANGES[v].f2), 0) / VOWEL_VISEMES.length;
+
+export class VoiceCalibrator {
+  private readonly sampleRate: number;
+  private readonly fftSize: number | undefined;
+  private readonly durationMs: number;
+  private frames: Uint8Array[] = [];
+  private recordedMs: number = 0;
+
+  constructor(options: { sampleRate?: number; fftSize?: number; durationMs?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    this.fftSize = options.fftSize;
+    this.durationMs = options.durationMs ?? 5000;
+  }
+
+  /**
+   * Record one analyser frame. Only time while the agent speaks counts toward
+   * the calibration duration, so pauses between turns don't dilute the sample.
+   */
+  addFrame(frequencyData: Uint8Array | undefined, deltaMs: number, isSpeaking: boolean): void {
+    if (!frequencyData || frequencyData.length === 0 || !isSpeaking || this.isComplete()) return;
+
+    this.frames.push(new Uint8Array(frequencyData));
+    this.recordedMs += deltaMs;
+  }
+
+  isComplete(): boolean {
+    return this.recordedMs >= this.durationMs;
+  }
+
+  /**
+   * Recording progress (0-1)
+   */
+  getProgress(): number {
+    return Math.min(1, this.recordedMs / this.durationMs);
+  }
+
+  /**
+   * Fit a profile to the recorded frames. Falls back to the default profile
+   * values for anything the recording can't support.
+   */
+  buildProfile(name: string): VoiceProfile {
+    const averages = this.frames.map(getAverageAmplitude);
+
+    // Silence cutoff: a quarter of the way from the noise floor to typical speech
+    const noiseFloor = percentile(averages, 0.1);
+    const speechLevel = percentile(averages, 0.6);
+    const silenceThreshold = Math.max(2, noiseFloor + (speechLevel - noiseFloor) * 0.25);
+
+    const voiced = this.frames.filter((_, i) => averages[i] >= silenceThreshold);
+    if (voiced.length < MIN_VOICED_FRAMES) {
+      console.warn(`⚠️ Voice calibration: only ${voiced.length} voiced frames, keeping default formants`);
+      return { ...DEFAULT_VOICE_PROFILE, name, silenceThreshold };
+    }
+
+    // Scale the default formant ranges by how this voice's peaks compare
+    const f1Peaks: number[] = [];
+    const f2Peaks: number[] = [];
+    for (const frame of voiced) {
+      const f1 = this.findPeakHz(frame, F1_SEARCH[0], F1_SEARCH[1]);
+      const f2 = this.findPeakHz(frame, Math.max(F2_SEARCH[0], f1 + 200), F2_SEARCH[1]);
+      f1Peaks.push(f1);
+      f2Peaks.push(f2);
+    }
+
+    const clampScale = (scale: number) => Math.min(MAX_FORMANT_SCALE, Math.max(MIN_FORMANT_SCALE, scale));
+    const f1Scale = clampScale(median(f1Peaks) / REFERENCE_F1);
+    const f2Scale = clampScale(median(f2Peaks) / REFERENCE_F2);
+
+    const formantRanges = {} as Record<VowelViseme, FormantRange>;
+    for (const viseme of VOWEL_VISEMES) {
+      formantRanges[viseme] = {
+        f1: scaleRange(DEFAULT_FORMANT_RANGES[viseme].f1, f1Scale),
+        f2: scaleRange(DEFAULT_FORMANT_RANGES[viseme].f2, f2Scale),
+      };
+    }
+
+    // Score thresholds from the voice's own score distribution
+    const options: AnalyzerOptions = {
+      sampleRate: this.sampleRate,
+      fftSize: this.fftSize,
+      profile: { ...DEFAULT_VOICE_PROFILE, formantRanges },
+    };
+    const maxScores = voiced.map(frame => Math.max(...Object.values(scoreVisemes(frame, options))));
+
+    const profile: VoiceProfile = {
+      name,
+      formantRanges,
+      minScoreThreshold: Math.max(5, percentile(maxScores, 0.1)),
+      silenceThreshold,
+      intensityScale: Math.max(30, percentile(maxScores, 0.95)),
+    };
+
+    console.log(`🎙️ Voice calibrated: F1 x${f1Scale.toFixed(2)}, F2 x${f2Scale.toFixed(2)}, silence=${silenceThreshold.toFixed(1)}, minScore=${profile.minScoreThreshold.toFixed(1)}, intensityScale=${profile.intensityScale.toFixed(1)}`);
+
+    return profile;
+  }
+
+  /**
+   * Reset controller state
+   */
+  reset(): void {
+    this.frames = [];
+    this.recordedMs = 0;
+  }
+
+  private findPeakHz(frequencyData: Uint8Array, startHz: number, endHz: number): number {
+    const fftSize = this.fftSize ?? frequencyData.length * 2;
+    const binWidth = this.sampleRate / fftSize;
+    const startBin = Math.floor(startHz / binWidth);
+    const endBin = Math.min(frequencyData.length - 1, Math.ceil(endHz / binWidth));
+
+    let peakBin = startBin;
+    for (let i = startBin; i <= endBin; i++) {
+      if (frequencyData[i] > frequencyData[peakBin]) peakBin = i;
+    }
+    return peakBin * binWidth;
+  }
+}
+
+/**
+ * Load all saved voice profiles, keyed by profile name
+ */
+export function loadVoiceProfiles(): Record<string, VoiceProfile> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch (error) {
+    console.error('Failed to read voice profiles:', error);
+    return {};
+  }
+}
+
+export function loadVoiceProfile(name: string): VoiceProfile | null {
+  return loadVoiceProfiles()[name] ?? null;
+}
+
+export function saveVoiceProfile(profile: VoiceProfile): void {
+  const profiles = loadVoiceProfiles();
+  profiles[profile.name] = profile;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function deleteVoiceProfile(name: string): void {
+  const profiles = loadVoiceProfiles();
+  delete profiles[name];
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}